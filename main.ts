@@ -1,37 +1,284 @@
 import {
+	AbstractInputSuggest,
 	App,
+	ButtonComponent,
+	debounce,
 	Editor,
+	DropdownComponent,
+	FuzzySuggestModal,
+	getAllTags,
+	getLinkpath,
+	ItemView,
 	MarkdownView,
 	Modal,
+	moment,
 	normalizePath,
 	Notice,
+	parseYaml,
 	Plugin,
 	PluginSettingTab,
+	ReferenceCache,
+	SearchComponent,
 	Setting,
+	stringifyYaml,
 	TAbstractFile,
+	TextAreaComponent,
 	TFile,
 	TFolder,
+	WorkspaceLeaf,
 } from "obsidian";
+import { strFromU8, strToU8, unzipSync, Unzipped, Zippable, zipSync } from "fflate";
+
+type AutoArchiveConditionType =
+	| "fileAge"
+	| "regexPattern"
+	| "frontmatter"
+	| "tag"
+	| "notLinked"
+	| "extension"
+	| "fileSize"
+	| "wordCount"
+	| "contentRegex"
+	| "taskCompletion";
+
+type FrontmatterOperator =
+	| "exists"
+	| "equals"
+	| "contains"
+	| "matches"
+	| "before"
+	| "after";
+
+type TagOperator = "has" | "missing";
+
+type FileAgeSource = "mtime" | "ctime" | "frontmatter" | "filename" | "lastOpened";
+
+type FileAgeUnit = "hours" | "days" | "weeks" | "months";
+
+type NumberComparison = "greaterThan" | "lessThan";
+
+type FileSizeUnit = "KB" | "MB" | "GB";
+
+type TaskCompletionState = "allDone" | "someOpen" | "noTasks";
 
 interface AutoArchiveCondition {
-	type: "fileAge" | "regexPattern";
-	value: string; // For fileAge: number in days, for regexPattern: regex string
+	type: AutoArchiveConditionType;
+	value: string; // For fileAge: number of ageUnit, for regexPattern and contentRegex: regex string, for frontmatter: value to compare against, for tag: comma-separated tags, for extension: comma-separated extensions, for fileSize: number of sizeUnit, for wordCount: number of words
+	frontmatterKey?: string;
+	frontmatterOperator?: FrontmatterOperator;
+	tagOperator?: TagOperator;
+	ageSource?: FileAgeSource; // Defaults to mtime
+	ageUnit?: FileAgeUnit; // Defaults to days
+	comparison?: NumberComparison; // For fileSize and wordCount
+	sizeUnit?: FileSizeUnit; // Defaults to MB
+	taskState?: TaskCompletionState;
+	negate?: boolean; // NOT: matches when the condition doesn't
 }
 
+interface AutoArchiveConditionGroup {
+	type: "group";
+	logicOperator: "AND" | "OR";
+	negate?: boolean;
+	conditions: AutoArchiveConditionNode[];
+}
+
+type AutoArchiveConditionNode = AutoArchiveCondition | AutoArchiveConditionGroup;
+
+interface AutoArchiveSchedule {
+	type: "interval" | "daily" | "weekly" | "monthly";
+	frequency: number; // in minutes, for interval schedules
+	time: string; // HH:mm, for daily, weekly and monthly schedules
+	weekday: number; // 0 = Sunday, for weekly schedules
+	dayOfMonth: number; // Clamped to the last day in shorter months
+}
+
+// Vault events that run a rule straight away, in addition to its schedule
+type AutoArchiveEventTrigger = "modify" | "metadataChange" | "create" | "startup";
+
+type AutoArchiveConflictPolicy = "skip" | "rename" | "replaceOlder" | "queue";
+
+// Folder rules evaluate the files in a folder, orphaned attachment rules
+// the attachments anywhere in the vault that no active note links to
+type AutoArchiveRuleMode = "folder" | "orphanedAttachments";
+
 interface AutoArchiveRule {
 	id: string;
 	enabled: boolean;
+	mode?: AutoArchiveRuleMode; // Defaults to folder
+	attachmentExtensions?: string[]; // For orphaned attachment rules
 	folderPath: string;
 	useFolderRegex: boolean;
 	applyRecursively: boolean;
-	conditions: AutoArchiveCondition[];
-	logicOperator: "AND" | "OR";
+	conditionGroup: AutoArchiveConditionGroup;
+	conflictPolicy?: AutoArchiveConflictPolicy; // Falls back to the global policy when unset
+	archiveId?: string; // Target archive, the default archive folder when unset
+	schedule?: AutoArchiveSchedule; // Overrides the global schedule when set
+	triggers?: AutoArchiveEventTrigger[];
+	exclusions?: ArchiveExclusions; // In addition to the global exclusions
+	lastRun?: number;
+	lastResult?: AutoArchiveRuleHealth;
+}
+
+interface AutoArchiveRuleHealth {
+	timestamp: number;
+	matched: number;
+	archived: number;
+	skipped: number;
+	error?: string;
+}
+
+interface ArchiveDestination {
+	id: string;
+	name: string;
+	path: string;
+}
+
+type ArchiveTrigger = "manual" | "contextMenu" | "rule";
+
+type ArchiveOperation = "archive" | "unarchive";
+
+type ConflictResolution = "replace" | "rename" | "merge" | "keepNewer" | "skip";
+
+interface ConflictChoice {
+	resolution: ConflictResolution;
+	applyToAll: boolean;
+}
+
+interface ArchiveNote {
+	reason: string;
+	tags: string[];
+}
+
+interface ArchiveOperationContext {
+	trigger: ArchiveTrigger;
+	ruleId?: string;
+	batchId: string;
+	archiveId?: string;
+	note?: ArchiveNote; // User-entered reason and tags
+	conflictResolution?: ConflictResolution; // Set when the user applies a choice to all remaining conflicts
+	conflictPolicy?: AutoArchiveConflictPolicy; // Set for unattended runs that must never prompt
+	attachment?: boolean; // Set when an attachment is carried along with the notes embedding it
+}
+
+interface NeedsAttentionItem {
+	id: string;
+	timestamp: number;
+	path: string;
+	destinationPath: string;
+	ruleId?: string;
+	reason: string;
+}
+
+interface ArchiveHistoryEntry {
+	id: string;
+	batchId: string;
+	timestamp: number;
+	operation: ArchiveOperation;
+	sourcePath: string;
+	destinationPath: string;
+	trigger: ArchiveTrigger;
+	ruleId?: string;
+	note?: ArchiveNote;
+	bundle?: boolean; // The item was packed into or extracted from a zip bundle
+	success: boolean;
+	message: string;
+	undone: boolean;
+}
+
+interface ArchiveBrowserItem {
+	file: TFile;
+	archiveFolder: string;
+	originalPath: string;
+	record: ArchiveHistoryEntry | null;
+}
+
+type ArchiveBrowserSortKey = "name" | "originalPath" | "archivedAt" | "size" | "rule";
+
+type BacklinkAction = "leave" | "plainText" | "annotate";
+
+interface BacklinkRewrite {
+	action: BacklinkAction;
+	// Notes whose links to the archived items get rewritten after the move
+	sourcePaths: string[];
+}
+
+interface ArchiveFrontmatterKeys {
+	archivedAt: string;
+	archivedFrom: string;
+	archivedByRule: string;
+	reason: string;
+	tags: string;
+}
+
+interface ArchiveExclusions {
+	patterns: string[]; // Globs, or regular expressions written as /pattern/
+	files: string[];
+	tags: string[];
+}
+
+interface ZipBundleManifest {
+	version: number;
+	createdAt: number;
+	originalPath: string;
+	files: { path: string; originalPath: string }[];
+}
+
+interface ZipBundleEntry {
+	name: string;
+	size: number;
+	originalPath?: string;
 }
 
 interface SimpleArchiverSettings {
 	archiveFolder: string;
+	archiveDestinations: ArchiveDestination[]; // Named archives in addition to archiveFolder
+	archivePathTemplate: string;
+	conflictRenameStyle: "number" | "timestamp";
+	backlinkAction: BacklinkAction | "ask";
+	backlinkAnnotation: string;
+	archiveAttachments: boolean;
+	stampFrontmatter: boolean;
+	frontmatterKeys: ArchiveFrontmatterKeys;
+	unarchiveFrontmatter: "remove" | "history";
+	exclusions: ArchiveExclusions;
+	protectionProperty: string; // Notes with this property set to "never" are never archived
 	autoArchiveRules: AutoArchiveRule[];
-	autoArchiveFrequency: number; // in minutes
+	autoArchiveSchedule: AutoArchiveSchedule;
+	lastAutoArchiveRun?: number;
+	autoArchiveConflictPolicy: AutoArchiveConflictPolicy;
+	needsAttention: NeedsAttentionItem[];
+	archiveHistory: ArchiveHistoryEntry[];
+	originalPaths: Record<string, string>; // archived path -> original path
+	lastOpened: Record<string, number>; // file path -> time last opened
+	runReport: "off" | "note" | "daily";
+	runReportPath: string; // Note the reports are appended to
+	runReportFolder: string; // Folder of the daily report notes
+	carriedAttachments: string[]; // Archived paths of attachments carried along with notes
+}
+
+interface AutoArchiveSkip {
+	file: TFile;
+	reason: string;
+}
+
+interface AutoArchiveMove {
+	from: string;
+	to: string;
+}
+
+interface AutoArchiveRuleMatch {
+	rule: AutoArchiveRule;
+	files: TFile[];
+	skipped: AutoArchiveSkip[]; // Protected files that otherwise match the rule, and failed moves
+	moved: AutoArchiveMove[]; // Filled in once the files are archived
+	errors: string[]; // Errors seen while evaluating the rule
+}
+
+interface AutoArchiveRunSummary {
+	matches: AutoArchiveRuleMatch[];
+	archived: number;
+	skipped: AutoArchiveSkip[];
+	errors: string[];
 }
 
 interface ArchiveResult {
@@ -39,15 +286,146 @@ interface ArchiveResult {
 	message: string;
 }
 
+interface AutoArchiveRulesExport {
+	plugin: string;
+	version: number;
+	exportedAt: string;
+	rules: AutoArchiveRule[];
+}
+
+interface AutoArchiveRulesImport {
+	rules: AutoArchiveRule[];
+	errors: string[]; // Problems that stop the import
+	warnings: string[];
+}
+
+type AutoArchiveRulesFormat = "json" | "yaml";
+
+const VIEW_TYPE_ARCHIVE_BROWSER = "simple-archiver-browser";
+
+// Id of the archive configured by the archiveFolder setting
+const DEFAULT_ARCHIVE_ID = "default";
+
 const DEFAULT_SETTINGS: SimpleArchiverSettings = {
 	archiveFolder: "Archive",
+	archiveDestinations: [],
+	archivePathTemplate: "{{archiveFolder}}/{{originalPath}}",
+	conflictRenameStyle: "number",
+	backlinkAction: "ask",
+	backlinkAnnotation: " (archived)",
+	archiveAttachments: false,
+	stampFrontmatter: false,
+	frontmatterKeys: {
+		archivedAt: "archived_at",
+		archivedFrom: "archived_from",
+		archivedByRule: "archived_by_rule",
+		reason: "archive_reason",
+		tags: "archive_tags",
+	},
+	unarchiveFrontmatter: "remove",
+	exclusions: {
+		patterns: [],
+		files: [],
+		tags: [],
+	},
+	protectionProperty: "archive",
 	autoArchiveRules: [],
-	autoArchiveFrequency: 60, // default 60 minutes
+	autoArchiveSchedule: {
+		type: "interval",
+		frequency: 60, // default 60 minutes
+		time: "02:00",
+		weekday: 0,
+		dayOfMonth: 1,
+	},
+	autoArchiveConflictPolicy: "queue",
+	needsAttention: [],
+	archiveHistory: [],
+	originalPaths: {},
+	lastOpened: {},
+	runReport: "off",
+	runReportPath: "Archive/_log.md",
+	runReportFolder: "Archive/Logs",
+	carriedAttachments: [],
+};
+
+// Oldest history entries are dropped once the journal grows past this size
+const MAX_HISTORY_ENTRIES = 1000;
+
+const DEFAULT_ATTACHMENT_EXTENSIONS = [
+	"png", "jpg", "jpeg", "gif", "svg", "webp", "bmp",
+	"pdf",
+	"mp3", "wav", "m4a", "ogg", "flac",
+	"mp4", "webm", "mov",
+];
+
+const FILE_SIZE_UNITS: Record<FileSizeUnit, number> = {
+	KB: 1024,
+	MB: 1024 * 1024,
+	GB: 1024 * 1024 * 1024,
+};
+
+// How often to check whether any auto-archive rule is due
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Wait for edits to settle before evaluating rules triggered by vault events
+const EVENT_TRIGGER_DELAY_MS = 2000;
+
+// How long to wait for the metadata cache to catch up before rewriting backlinks
+const BACKLINK_CACHE_ATTEMPTS = 10;
+const BACKLINK_CACHE_WAIT_MS = 200;
+
+const EVENT_TRIGGER_LABELS: Record<AutoArchiveEventTrigger, string> = {
+	modify: "When a file is modified",
+	metadataChange: "When a file's metadata changes",
+	create: "When a file is created in the folder",
+	startup: "When Obsidian starts",
 };
 
+// Manifest stored inside zip bundles, mapping bundle entries to vault paths
+const ZIP_MANIFEST_NAME = ".simple-archiver.json";
+const ZIP_MANIFEST_VERSION = 1;
+
+// Frontmatter list that keeps past archive stamps when unarchiving
+const ARCHIVE_HISTORY_KEY = "archive_history";
+
+const AUTO_ARCHIVE_CONDITION_TYPES: AutoArchiveConditionType[] = [
+	"fileAge",
+	"regexPattern",
+	"frontmatter",
+	"tag",
+	"notLinked",
+	"extension",
+	"fileSize",
+	"wordCount",
+	"contentRegex",
+	"taskCompletion",
+];
+
+const AUTO_ARCHIVE_CONFLICT_POLICIES: AutoArchiveConflictPolicy[] = [
+	"skip",
+	"rename",
+	"replaceOlder",
+	"queue",
+];
+
+// Version of exported rules. Bump it when the rule format changes and
+// bring older rules up to date in migrateRule.
+const RULES_EXPORT_VERSION = 1;
+
 export default class SimpleArchiver extends Plugin {
 	settings: SimpleArchiverSettings;
 	autoArchiveInterval: number | null = null;
+	autoArchiveRunning = false;
+	// Errors seen while evaluating rules, collected during auto-archive runs
+	ruleErrors: Set<string> | null = null;
+	requestSaveSettings = debounce(() => this.saveSettings(), 5000, true);
+	// Rule ids to evaluate per file path, collected from vault events
+	pendingTriggers = new Map<string, Set<string>>();
+	requestTriggeredRules = debounce(
+		() => this.processTriggeredRules(),
+		EVENT_TRIGGER_DELAY_MS,
+		true
+	);
 
 	async onload() {
 		await this.loadSettings();
@@ -65,7 +443,69 @@ export default class SimpleArchiver extends Plugin {
 
 				if (canBeArchived && view.file != null) {
 					if (!checking) {
-						this.archiveFile(view.file).then((result) => {
+						this.archiveWithBacklinkCheck(
+							view.file,
+							this.createOperationContext("manual")
+						).then((result) => {
+							new Notice(result.message);
+						});
+					}
+
+					return true;
+				}
+
+				return false;
+			},
+		});
+
+		this.addCommand({
+			id: "archive-with-note",
+			name: "Archive with note…",
+			editorCheckCallback: (
+				checking: boolean,
+				editor: Editor,
+				view: MarkdownView
+			) => {
+				const file = view.file;
+
+				if (file != null && !this.isFileArchived(file)) {
+					if (!checking) {
+						this.promptArchiveNote(async (note) => {
+							const context = this.createOperationContext("manual");
+							context.note = note;
+
+							const result = await this.archiveWithBacklinkCheck(file, context);
+							new Notice(result.message);
+						});
+					}
+
+					return true;
+				}
+
+				return false;
+			},
+		});
+
+		this.addCommand({
+			id: "archive-as-zip",
+			name: "Archive as zip bundle",
+			editorCheckCallback: (
+				checking: boolean,
+				editor: Editor,
+				view: MarkdownView
+			) => {
+				const file = view.file;
+
+				if (file != null && !this.isFileArchived(file)) {
+					if (!checking) {
+						this.confirmProtectedItems([file]).then(async (confirmed) => {
+							if (!confirmed) {
+								return;
+							}
+							const result = await this.archiveAsZipBundle(
+								file,
+								this.createOperationContext("manual")
+							);
 							new Notice(result.message);
 						});
 					}
@@ -77,6 +517,29 @@ export default class SimpleArchiver extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "move-to-archive-picker",
+			name: "Move to archive…",
+			editorCheckCallback: (
+				checking: boolean,
+				editor: Editor,
+				view: MarkdownView
+			) => {
+				const canBeArchived =
+					view.file && !this.isFileArchived(view.file);
+
+				if (canBeArchived && view.file != null) {
+					if (!checking) {
+						this.pickArchiveDestination([view.file]);
+					}
+
+					return true;
+				}
+
+				return false;
+			},
+		});
+
 		this.addCommand({
 			id: "move-out-of-archive",
 			name: "Move out of archive",
@@ -90,7 +553,10 @@ export default class SimpleArchiver extends Plugin {
 
 				if (canBeUnarchived && view.file != null) {
 					if (!checking) {
-						this.unarchiveFile(view.file).then((result) => {
+						this.unarchiveFile(
+							view.file,
+							this.createOperationContext("manual")
+						).then((result) => {
 							new Notice(result.message);
 						});
 					}
@@ -102,10 +568,67 @@ export default class SimpleArchiver extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "preview-auto-archive",
+			name: "Preview auto-archive rules",
+			callback: async () => {
+				await this.openAutoArchivePreview();
+			},
+		});
+
+		this.addCommand({
+			id: "show-needs-attention",
+			name: "Show auto-archive items needing attention",
+			callback: () => {
+				this.openNeedsAttention();
+			},
+		});
+
+		this.addCommand({
+			id: "show-archive-history",
+			name: "Show archive history",
+			callback: () => {
+				this.openArchiveHistory();
+			},
+		});
+
+		this.registerView(
+			VIEW_TYPE_ARCHIVE_BROWSER,
+			(leaf) => new ArchiveBrowserView(leaf, this)
+		);
+
+		this.addCommand({
+			id: "open-archive-browser",
+			name: "Open archive browser",
+			callback: async () => {
+				await this.openArchiveBrowser();
+			},
+		});
+
 		this.addSettingTab(new SimpleArchiverSettingsTab(this.app, this));
 
-		// Start auto-archive job
+		// Start auto-archive job and catch up on runs missed while closed
 		this.scheduleAutoArchive();
+		this.app.workspace.onLayoutReady(async () => {
+			const startupRules = this.getTriggeredRules("startup");
+			if (startupRules.length > 0) {
+				await this.processAutoArchiveRules(startupRules, false);
+			}
+			await this.runDueAutoArchiveRules();
+
+			// Registered once the vault has loaded so existing files don't count as created
+			this.registerEvent(
+				this.app.vault.on("modify", (file) => this.queueTriggeredFile(file, "modify"))
+			);
+			this.registerEvent(
+				this.app.metadataCache.on("changed", (file) =>
+					this.queueTriggeredFile(file, "metadataChange")
+				)
+			);
+			this.registerEvent(
+				this.app.vault.on("create", (file) => this.queueTriggeredFile(file, "create"))
+			);
+		});
 
 		// Archive file context menu
 		this.registerEvent(
@@ -118,7 +641,10 @@ export default class SimpleArchiver extends Plugin {
 					item.setTitle("Move to archive")
 						.setIcon("archive")
 						.onClick(async () => {
-							const result = await this.archiveFile(file);
+							const result = await this.archiveWithBacklinkCheck(
+								file,
+								this.createOperationContext("contextMenu")
+							);
 
 							if (result.success) {
 								new Notice(result.message);
@@ -127,6 +653,60 @@ export default class SimpleArchiver extends Plugin {
 							}
 						});
 				});
+
+				menu.addItem((item) => {
+					item.setTitle("Archive as zip bundle")
+						.setIcon("file-archive")
+						.onClick(async () => {
+							if (!(await this.confirmProtectedItems([file]))) {
+								return;
+							}
+							const result = await this.archiveAsZipBundle(
+								file,
+								this.createOperationContext("contextMenu")
+							);
+							new Notice(result.message);
+						});
+				});
+
+				menu.addItem((item) => {
+					item.setTitle("Archive with note…")
+						.setIcon("archive")
+						.onClick(() => {
+							this.promptArchiveNote(async (note) => {
+								const context = this.createOperationContext("contextMenu");
+								context.note = note;
+
+								const result = await this.archiveWithBacklinkCheck(file, context);
+								new Notice(result.message);
+							});
+						});
+				});
+
+				if (this.settings.archiveDestinations.length > 0) {
+					menu.addItem((item) => {
+						item.setTitle("Move to archive…")
+							.setIcon("archive")
+							.onClick(() => {
+								this.pickArchiveDestination([file]);
+							});
+					});
+				}
+
+				const excludedFiles = this.settings.exclusions.files;
+				const isExcluded = excludedFiles.includes(file.path);
+				menu.addItem((item) => {
+					item.setTitle(isExcluded ? "Allow archiving" : "Never archive")
+						.setIcon(isExcluded ? "shield-off" : "shield")
+						.onClick(async () => {
+							if (isExcluded) {
+								excludedFiles.remove(file.path);
+							} else {
+								excludedFiles.push(file.path);
+							}
+							await this.saveSettings();
+						});
+				});
 			})
 		);
 
@@ -143,6 +723,26 @@ export default class SimpleArchiver extends Plugin {
 							await this.archiveAllFiles(files);
 						});
 				});
+
+				menu.addItem((item) => {
+					item.setTitle("Archive all with note…")
+						.setIcon("archive")
+						.onClick(() => {
+							this.promptArchiveNote(async (note) => {
+								await this.archiveAllFiles(files, undefined, note);
+							});
+						});
+				});
+
+				if (this.settings.archiveDestinations.length > 0) {
+					menu.addItem((item) => {
+						item.setTitle("Move all to archive…")
+							.setIcon("archive")
+							.onClick(() => {
+								this.pickArchiveDestination(files);
+							});
+					});
+				}
 			})
 		);
 
@@ -157,7 +757,10 @@ export default class SimpleArchiver extends Plugin {
 					item.setTitle("Move out of archive")
 						.setIcon("archive-restore")
 						.onClick(async () => {
-							const result = await this.unarchiveFile(file);
+							const result = await this.unarchiveFile(
+								file,
+								this.createOperationContext("contextMenu")
+							);
 
 							if (result.success) {
 								new Notice(result.message);
@@ -166,6 +769,32 @@ export default class SimpleArchiver extends Plugin {
 							}
 						});
 				});
+
+				if (file instanceof TFile && file.extension === "zip") {
+					menu.addItem((item) => {
+						item.setTitle("View zip contents")
+							.setIcon("file-archive")
+							.onClick(async () => {
+								try {
+									const entries = await this.listZipBundle(file);
+									new ZipBundleModal(this.app, file, entries).open();
+								} catch (error) {
+									new Notice(`Unable to read ${file.name}: ${error}`);
+								}
+							});
+					});
+				}
+
+				const note = this.getArchiveNote(file);
+				if (note) {
+					menu.addItem((item) => {
+						item.setTitle("Show archive note")
+							.setIcon("sticky-note")
+							.onClick(() => {
+								new ArchiveNoteDetailsModal(this.app, file, note).open();
+							});
+					});
+				}
 			})
 		);
 
@@ -185,6 +814,40 @@ export default class SimpleArchiver extends Plugin {
 			})
 		);
 
+		// Keep the original path index in sync with the vault
+		this.registerEvent(
+			this.app.vault.on("rename", async (file, oldPath) => {
+				const movedOriginal = this.moveOriginalPaths(oldPath, file.path);
+				const movedOpened = this.moveLastOpened(oldPath, file.path);
+				const movedExcluded = this.moveExcludedFiles(oldPath, file.path);
+				const movedCarried = this.moveCarriedAttachments(oldPath, file.path);
+				if (movedOriginal || movedOpened || movedExcluded || movedCarried) {
+					await this.saveSettings();
+				}
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on("delete", async (file) => {
+				const forgotOriginal = this.forgetOriginalPaths(file.path);
+				const forgotOpened = this.forgetLastOpened(file.path);
+				const forgotCarried = this.forgetCarriedAttachments(file.path);
+				if (forgotOriginal || forgotOpened || forgotCarried) {
+					await this.saveSettings();
+				}
+			})
+		);
+
+		// Remember when files were opened for the last opened file age source
+		this.registerEvent(
+			this.app.workspace.on("file-open", (file) => {
+				if (file) {
+					this.settings.lastOpened[file.path] = Date.now();
+					this.requestSaveSettings();
+				}
+			})
+		);
+
 		// Folder context menu for auto-archive
 		this.registerEvent(
 			this.app.workspace.on("file-menu", (menu, file) => {
@@ -241,8 +904,7 @@ export default class SimpleArchiver extends Plugin {
 						folderPath: folderPath,
 						useFolderRegex: false,
 						applyRecursively: false,
-						conditions: [],
-						logicOperator: "AND"
+						conditionGroup: { type: "group", logicOperator: "AND", conditions: [] },
 					};
 
 					this.settings.autoArchiveRules.push(newRule);
@@ -280,436 +942,4713 @@ export default class SimpleArchiver extends Plugin {
 		}, SETTINGS_TAB_RENDER_DELAY_MS);
 	}
 
-	private isFileArchived(file: TAbstractFile): boolean {
-		return file.path.startsWith(this.settings.archiveFolder);
+	async openAutoArchivePreview(rules?: AutoArchiveRule[]): Promise<void> {
+		const matches = await this.previewAutoArchiveRules(rules);
+
+		new AutoArchivePreviewModal(this.app, matches, async (selected) => {
+			const summary = await this.archiveMatchedFiles(selected, false);
+			new Notice(`${summary.archived} files archived`);
+		}).open();
 	}
 
-	private async archiveFile(file: TAbstractFile): Promise<ArchiveResult> {
-		if (this.isFileArchived(file)) {
-			return { success: false, message: "Item is already archived" };
-		}
+	async openArchiveBrowser(): Promise<void> {
+		const { workspace } = this.app;
 
-		const destinationFilePath = normalizePath(
-			`${this.settings.archiveFolder}/${file.path}`
-		);
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_ARCHIVE_BROWSER)[0];
+		if (!leaf) {
+			leaf = workspace.getLeaf("tab");
+			await leaf.setViewState({ type: VIEW_TYPE_ARCHIVE_BROWSER, active: true });
+		}
 
-		const existingItem =
-			this.app.vault.getAbstractFileByPath(destinationFilePath);
+		workspace.revealLeaf(leaf);
+	}
 
-		if (existingItem != null) {
-			// Same item exists in archive, prompt to replace
-			return new Promise<ArchiveResult>((resolve) => {
-				const prompt = new SimpleArchiverPromptModal(
-					this.app,
-					"Replace archived item?",
-					`An item called "${file.name}" already exists in the destination folder in the archive. Would you like to replace it?`,
-					"Replace",
-					"Cancel",
-					async () => {
-						await this.app.fileManager.trashFile(existingItem);
-						const response = await this.moveFileToArchive(file);
+	/**
+	 * Lists every file inside the configured archives together with where
+	 * it came from and the history entry that archived it, if any.
+	 */
+	getArchivedItems(): ArchiveBrowserItem[] {
+		const records = this.getArchiveRecords();
+		const items: ArchiveBrowserItem[] = [];
+
+		for (const destination of this.getArchiveDestinations()) {
+			const folder = this.app.vault.getFolderByPath(destination.path);
+			if (!folder) {
+				continue;
+			}
 
-						resolve(response);
-					},
-					async () => {
-						resolve({
-							success: false,
-							message: "Archive operation cancelled",
-						});
-					}
-				);
-				prompt.open();
-			});
+			for (const file of this.getFilesFromFolder(folder, true)) {
+				items.push({
+					file,
+					archiveFolder: destination.path,
+					originalPath: this.getOriginalPath(file),
+					record: this.getArchiveRecord(file, records),
+				});
+			}
 		}
 
-		// If no existing item, proceed with archiving
-		const response = await this.moveFileToArchive(file);
-		return response;
+		return items;
 	}
 
-	private async archiveAllFiles(files: TAbstractFile[]) {
-		let archived = 0;
+	/**
+	 * Maps each archived path to the latest successful history entry that
+	 * archived it.
+	 */
+	private getArchiveRecords(): Map<string, ArchiveHistoryEntry> {
+		const records = new Map<string, ArchiveHistoryEntry>();
+		for (const entry of this.settings.archiveHistory) {
+			if (entry.operation === "archive" && entry.success && !entry.undone) {
+				records.set(entry.destinationPath, entry);
+			}
+		}
+		return records;
+	}
 
-		for (const file of files) {
-			if ((await this.archiveFile(file)).success) {
-				archived++;
+	private getArchiveRecord(
+		file: TAbstractFile,
+		records = this.getArchiveRecords()
+	): ArchiveHistoryEntry | null {
+		const archiveFolder = this.getContainingArchiveFolder(file.path);
+		if (archiveFolder === null) {
+			return null;
+		}
+
+		// Files inside an archived folder share the folder's record
+		let path = file.path;
+		while (path.length > archiveFolder.length) {
+			const record = records.get(path);
+			if (record) {
+				return record;
 			}
+			path = path.substring(0, path.lastIndexOf("/"));
 		}
 
-		new Notice(`${archived} files archived`);
+		return null;
 	}
 
-	private async moveFileToArchive(
-		file: TAbstractFile
-	): Promise<ArchiveResult> {
-		const destinationPath = normalizePath(
-			`${this.settings.archiveFolder}/${file.parent?.path}`
+	/**
+	 * Returns the reason and tags given when an item was archived, from the
+	 * history or, failing that, from stamped frontmatter.
+	 */
+	getArchiveNote(file: TAbstractFile): ArchiveNote | null {
+		const note = this.getArchiveRecord(file)?.note;
+		if (note) {
+			return note;
+		}
+
+		if (!(file instanceof TFile)) {
+			return null;
+		}
+
+		const keys = this.settings.frontmatterKeys;
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const reason = frontmatter?.[keys.reason];
+		const tags = frontmatter?.[keys.tags];
+
+		if (!reason && !tags) {
+			return null;
+		}
+
+		return {
+			reason: typeof reason === "string" ? reason : "",
+			tags: Array.isArray(tags) ? tags.map(String) : [],
+		};
+	}
+
+	private promptArchiveNote(onSubmit: (note: ArchiveNote) => Promise<void>): void {
+		new ArchiveNoteModal(this.app, onSubmit).open();
+	}
+
+	openArchiveHistory(): void {
+		new ArchiveHistoryModal(this.app, this).open();
+	}
+
+	openNeedsAttention(): void {
+		new NeedsAttentionModal(this.app, this).open();
+	}
+
+	private async addNeedsAttention(
+		file: TAbstractFile,
+		destinationPath: string,
+		context: ArchiveOperationContext,
+		reason: string
+	): Promise<void> {
+		// Repeated runs refresh the existing entry instead of piling up duplicates
+		this.settings.needsAttention = this.settings.needsAttention.filter(
+			(item) => item.path !== file.path
 		);
+		this.settings.needsAttention.push({
+			id: crypto.randomUUID(),
+			timestamp: Date.now(),
+			path: file.path,
+			destinationPath,
+			ruleId: context.ruleId,
+			reason,
+		});
+		await this.saveSettings();
+	}
 
-		const destinationFolder =
-			this.app.vault.getFolderByPath(destinationPath);
+	async resolveNeedsAttention(item: NeedsAttentionItem): Promise<ArchiveResult> {
+		const file = this.app.vault.getAbstractFileByPath(item.path);
 
-		if (destinationFolder == null) {
-			await this.app.vault.createFolder(destinationPath);
+		let result: ArchiveResult;
+		if (file == null) {
+			result = { success: true, message: `${item.path} no longer exists` };
+		} else if (this.isFileArchived(file)) {
+			result = { success: true, message: `${file.name} is already archived` };
+		} else {
+			const rule = this.settings.autoArchiveRules.find(
+				(r) => r.id === item.ruleId
+			);
+			result = await this.archiveFile(file, {
+				trigger: "rule",
+				ruleId: item.ruleId,
+				batchId: crypto.randomUUID(),
+				archiveId: rule?.archiveId,
+			});
 		}
 
-		const destinationFilePath = normalizePath(
-			`${destinationPath}/${file.name}`
+		if (result.success) {
+			await this.dismissNeedsAttention(item);
+		}
+
+		return result;
+	}
+
+	async dismissNeedsAttention(item: NeedsAttentionItem): Promise<void> {
+		this.settings.needsAttention = this.settings.needsAttention.filter(
+			(i) => i.id !== item.id
 		);
+		await this.saveSettings();
+	}
 
-		try {
-			await this.app.fileManager.renameFile(file, destinationFilePath);
+	private createOperationContext(
+		trigger: ArchiveTrigger,
+		ruleId?: string
+	): ArchiveOperationContext {
+		return { trigger, ruleId, batchId: crypto.randomUUID() };
+	}
+
+	private async recordHistory(
+		operation: ArchiveOperation,
+		sourcePath: string,
+		destinationPath: string,
+		context: ArchiveOperationContext,
+		result: ArchiveResult,
+		bundle = false
+	): Promise<void> {
+		this.settings.archiveHistory.push({
+			id: crypto.randomUUID(),
+			batchId: context.batchId,
+			timestamp: Date.now(),
+			operation,
+			sourcePath,
+			destinationPath,
+			trigger: context.trigger,
+			ruleId: context.ruleId,
+			note: context.note,
+			bundle: bundle || undefined,
+			success: result.success,
+			message: result.message,
+			undone: false,
+		});
+
+		if (this.settings.archiveHistory.length > MAX_HISTORY_ENTRIES) {
+			this.settings.archiveHistory.splice(
+				0,
+				this.settings.archiveHistory.length - MAX_HISTORY_ENTRIES
+			);
+		}
+
+		// A run over many files saves once rather than once per file
+		this.requestSaveSettings();
+	}
+
+	async undoHistoryEntry(entry: ArchiveHistoryEntry): Promise<ArchiveResult> {
+		if (entry.undone || !entry.success) {
+			return { success: false, message: "Nothing to undo" };
+		}
+
+		const file = this.app.vault.getAbstractFileByPath(entry.destinationPath);
+		if (file == null) {
 			return {
-				success: true,
-				message: `${file.name} archived successfully`,
+				success: false,
+				message: `${entry.destinationPath} no longer exists`,
 			};
-		} catch (error) {
+		}
+
+		if (entry.bundle) {
+			// Bundles are undone by extracting or re-packing rather than moving
+			const context = this.createOperationContext("manual");
+			const result =
+				(entry.operation === "archive" && file instanceof TFile
+					? await this.extractZipBundle(file, context)
+					: await this.archiveAsZipBundle(file, context)) ?? {
+					success: false,
+					message: `${file.name} is not an archive bundle`,
+				};
+
+			if (result.success) {
+				entry.undone = true;
+				await this.saveSettings();
+			}
+			return result;
+		}
+
+		if (this.app.vault.getAbstractFileByPath(entry.sourcePath) != null) {
 			return {
 				success: false,
-				message: `Unable to archive ${file.name}: ${error}`,
+				message: `An item already exists at ${entry.sourcePath}`,
 			};
 		}
-	}
 
-	private async moveFileOutOfArchive(
-		file: TAbstractFile
-	): Promise<ArchiveResult> {
-		const originalPath = file.path.substring(
-			this.settings.archiveFolder.length + 1
-		);
-		const originalParentPath = originalPath.substring(
+		const parentPath = entry.sourcePath.substring(
 			0,
-			originalPath.lastIndexOf("/")
+			entry.sourcePath.lastIndexOf("/")
 		);
 
-		if (originalParentPath) {
-			const originalFolder =
-				this.app.vault.getFolderByPath(originalParentPath);
-
-			if (originalFolder == null) {
-				await this.app.vault.createFolder(normalizePath(originalParentPath));
-			}
+		if (parentPath && this.app.vault.getFolderByPath(parentPath) == null) {
+			await this.app.vault.createFolder(normalizePath(parentPath));
 		}
 
 		try {
-			await this.app.fileManager.renameFile(file, normalizePath(originalPath));
-			return {
-				success: true,
-				message: `${file.name} unarchived successfully`,
-			};
+			await this.app.fileManager.renameFile(file, entry.sourcePath);
+			if (entry.operation === "archive") {
+				this.forgetOriginalPaths(entry.destinationPath);
+				await this.clearArchiveFrontmatter(file);
+			} else {
+				this.settings.originalPaths[entry.sourcePath] = entry.destinationPath;
+			}
 		} catch (error) {
 			return {
 				success: false,
-				message: `Unable to unarchive ${file.name}: ${error}`,
+				message: `Unable to restore ${file.name}: ${error}`,
 			};
 		}
-	}
 
-	private async unarchiveFile(file: TAbstractFile): Promise<ArchiveResult> {
-		if (!this.isFileArchived(file)) {
-			return { success: false, message: "Item is not archived" };
-		}
+		entry.undone = true;
+		await this.saveSettings();
 
-		const originalPath = file.path.substring(
-			this.settings.archiveFolder.length + 1
-		);
+		return {
+			success: true,
+			message: `${file.name} restored to ${entry.sourcePath}`,
+		};
+	}
 
-		const existingItem = this.app.vault.getAbstractFileByPath(originalPath);
+	async undoHistoryBatch(batchId: string): Promise<number> {
+		let restored = 0;
 
-		if (existingItem != null) {
-			return new Promise<ArchiveResult>((resolve) => {
-				const prompt = new SimpleArchiverPromptModal(
-					this.app,
-					"Replace existing item?",
-					`An item called "${file.name}" already exists in the original location. Would you like to replace it?`,
-					"Replace",
-					"Cancel",
-					async () => {
-						await this.app.fileManager.trashFile(existingItem);
-						const response = await this.moveFileOutOfArchive(file);
+		// Undo in reverse order so nested moves unwind cleanly
+		const entries = this.settings.archiveHistory
+			.filter((entry) => entry.batchId === batchId)
+			.reverse();
 
-						resolve(response);
-					},
-					async () => {
-						resolve({
-							success: false,
-							message: "Unarchive operation cancelled",
-						});
-					}
-				);
-				prompt.open();
-			});
+		for (const entry of entries) {
+			if ((await this.undoHistoryEntry(entry)).success) {
+				restored++;
+			}
 		}
 
-		const response = await this.moveFileOutOfArchive(file);
-		return response;
+		return restored;
 	}
 
-	private async unarchiveAllFiles(files: TAbstractFile[]) {
-		let unarchived = 0;
+	getArchiveDestinations(): ArchiveDestination[] {
+		return [
+			{
+				id: DEFAULT_ARCHIVE_ID,
+				name: "Default archive",
+				path: this.settings.archiveFolder,
+			},
+			// Archives still being set up have no folder yet
+			...this.settings.archiveDestinations.filter((d) => d.path),
+		];
+	}
 
-		for (const file of files) {
-			if ((await this.unarchiveFile(file)).success) {
-				unarchived++;
+	private getArchiveFolderPath(archiveId?: string): string {
+		const destination = this.settings.archiveDestinations.find(
+			(d) => d.id === archiveId
+		);
+		return destination?.path || this.settings.archiveFolder;
+	}
+
+	/**
+	 * Returns the archive folder containing the given path, or null when
+	 * the path is not inside any archive.
+	 */
+	private getContainingArchiveFolder(path: string): string | null {
+		for (const destination of this.getArchiveDestinations()) {
+			if (path === destination.path || path.startsWith(`${destination.path}/`)) {
+				return destination.path;
 			}
 		}
+		return null;
+	}
 
-		new Notice(`${unarchived} files unarchived`);
+	pickArchiveDestination(
+		files: TAbstractFile[],
+		onChoose?: (destination: ArchiveDestination) => Promise<void>
+	): void {
+		new ArchiveDestinationSuggestModal(
+			this.app,
+			this.getArchiveDestinations(),
+			onChoose ??
+				(async (destination) => {
+					await this.archiveAllFiles(files, destination.id);
+				})
+		).open();
 	}
 
-	onunload() {
-		// Clean up auto-archive interval
-		if (this.autoArchiveInterval !== null) {
-			window.clearInterval(this.autoArchiveInterval);
-			this.autoArchiveInterval = null;
-		}
+	isFileArchived(file: TAbstractFile): boolean {
+		return this.getContainingArchiveFolder(file.path) !== null;
 	}
 
-	scheduleAutoArchive() {
-		// Clear existing interval if any
-		if (this.autoArchiveInterval !== null) {
-			window.clearInterval(this.autoArchiveInterval);
+	private async archiveFile(
+		file: TAbstractFile,
+		context: ArchiveOperationContext
+	): Promise<ArchiveResult> {
+		if (this.isFileArchived(file)) {
+			return { success: false, message: "Item is already archived" };
 		}
 
-		// Schedule new interval
-		const intervalMs = this.settings.autoArchiveFrequency * 60 * 1000;
-		this.autoArchiveInterval = window.setInterval(
-			() => this.processAutoArchiveRules(),
-			intervalMs
-		);
+		return this.moveIntoArchive(file, file.path, context);
 	}
 
-	async processAutoArchiveRules() {
-		const enabledRules = this.settings.autoArchiveRules.filter(
-			(rule) => rule.enabled
-		);
-
-		if (enabledRules.length === 0) {
-			return;
+	private async archiveWithBacklinkCheck(
+		file: TAbstractFile,
+		context: ArchiveOperationContext
+	): Promise<ArchiveResult> {
+		if (!(await this.confirmProtectedItems([file]))) {
+			return { success: false, message: "Archive operation cancelled" };
 		}
 
-		let totalArchived = 0;
-
-		for (const rule of enabledRules) {
-			let foldersToProcess: TFolder[] = [];
+		const backlinks = await this.handleBacklinks([file], false);
+		if (!backlinks) {
+			return { success: false, message: "Archive operation cancelled" };
+		}
 
-			if (rule.useFolderRegex) {
-				// Use regex to match folder paths
-				try {
-					const regex = new RegExp(rule.folderPath);
-					const allFolders = this.app.vault.getAllFolders();
-					foldersToProcess = allFolders.filter((folder) =>
-						regex.test(folder.path)
-					);
-				} catch (error) {
-					console.error(
-						`Invalid regex pattern in auto-archive rule: ${rule.folderPath}`,
-						error
-					);
-					continue;
-				}
-			} else {
-				// Use exact folder path
-				const folder = this.app.vault.getFolderByPath(
-					normalizePath(rule.folderPath)
-				);
+		const from = file.path;
+		const result = await this.archiveFile(file, context);
+		if (result.success) {
+			await this.rewriteBacklinks(backlinks, [{ from, to: file.path }]);
+		}
+		return result;
+	}
 
-				if (!folder) {
-					continue;
-				}
+	/**
+	 * Returns why an item is protected from archiving, or null when it
+	 * isn't. Rule exclusions apply on top of the global ones.
+	 */
+	getProtectionReason(file: TAbstractFile, rule?: AutoArchiveRule): string | null {
+		for (const exclusions of [this.settings.exclusions, rule?.exclusions]) {
+			if (!exclusions) {
+				continue;
+			}
 
-				foldersToProcess = [folder];
+			const excludedFile = exclusions.files.find(
+				(path) => file.path === path || file.path.startsWith(`${path}/`)
+			);
+			if (excludedFile !== undefined) {
+				return `${excludedFile} is excluded`;
 			}
 
-			const filesToArchive = [];
+			const pattern = exclusions.patterns.find((pattern) =>
+				matchesPathPattern(file.path, pattern, (message, error) =>
+					this.logRuleError(message, error)
+				)
+			);
+			if (pattern !== undefined) {
+				return `matches exclusion pattern ${pattern}`;
+			}
 
-			for (const folder of foldersToProcess) {
-				const files = await this.getFilesFromFolder(
-					folder,
-					rule.applyRecursively || false
+			if (file instanceof TFile && exclusions.tags.length > 0) {
+				const cache = this.app.metadataCache.getFileCache(file);
+				const fileTags = (cache ? getAllTags(cache) ?? [] : []).map((tag) =>
+					tag.toLowerCase()
 				);
-
-				for (const file of files) {
-					if (await this.evaluateAutoArchiveRule(file, rule)) {
-						filesToArchive.push(file);
-					}
+				const tag = this.parseTagList(exclusions.tags.join(",")).find((wanted) =>
+					fileTags.some((tag) => tag === wanted || tag.startsWith(`${wanted}/`))
+				);
+				if (tag !== undefined) {
+					return `tagged ${tag}`;
 				}
 			}
+		}
+
+		const property = this.settings.protectionProperty;
+		if (file instanceof TFile && property) {
+			const value = this.app.metadataCache.getFileCache(file)?.frontmatter?.[property];
+			const values: unknown[] = Array.isArray(value) ? value : [value];
+			if (values.some((value) => String(value).toLowerCase() === "never")) {
+				return `${property}: never`;
+			}
+		}
 
-			for (const file of filesToArchive) {
-				const result = await this.archiveFile(file);
-				if (result.success) {
-					totalArchived++;
+		return null;
+	}
+
+	/**
+	 * Asks before archiving protected items by hand, including protected
+	 * files inside folders. Returns false when cancelled.
+	 */
+	private async confirmProtectedItems(items: TAbstractFile[]): Promise<boolean> {
+		const protectedItems: string[] = [];
+		for (const item of items) {
+			const files = item instanceof TFolder ? [item, ...this.getFilesFromFolder(item, true)] : [item];
+			for (const file of files) {
+				const reason = this.getProtectionReason(file);
+				if (reason !== null) {
+					protectedItems.push(`${file.path} (${reason})`);
 				}
 			}
 		}
 
-		if (totalArchived > 0) {
-			console.log(`Auto-archive: ${totalArchived} files archived`);
+		if (protectedItems.length === 0) {
+			return true;
 		}
+
+		return new Promise<boolean>((resolve) => {
+			new SimpleArchiverPromptModal(
+				this.app,
+				"Archive protected files?",
+				`These files are protected from archiving: ${protectedItems.join(", ")}`,
+				"Archive anyway",
+				"Cancel",
+				async () => resolve(true),
+				async () => resolve(false)
+			).open();
+		});
 	}
 
-	private getFilesFromFolder(
-		folder: TFolder,
-		recursive: boolean
-	): TFile[] {
-		const files: TFile[] = [];
+	/**
+	 * Finds the non-archived notes that link to any of the given items,
+	 * keyed by the linking note's path.
+	 */
+	getActiveBacklinks(items: TAbstractFile[]): Map<string, Set<string>> {
+		const targets = new Set<string>();
+		for (const item of items) {
+			const files = item instanceof TFolder ? this.getFilesFromFolder(item, true) : [item];
+			for (const file of files) {
+				targets.add(file.path);
+			}
+		}
 
-		for (const child of folder.children) {
-			if (child instanceof TFile) {
-				files.push(child);
-			} else if (recursive && child instanceof TFolder) {
-				files.push(...this.getFilesFromFolder(child, recursive));
+		const backlinks = new Map<string, Set<string>>();
+		const resolvedLinks = this.app.metadataCache.resolvedLinks;
+
+		for (const sourcePath of Object.keys(resolvedLinks)) {
+			// Links between items archived together and links from the archive don't count
+			if (targets.has(sourcePath) || this.getContainingArchiveFolder(sourcePath) !== null) {
+				continue;
+			}
+
+			const linked = Object.keys(resolvedLinks[sourcePath]).filter((path) =>
+				targets.has(path)
+			);
+			if (linked.length > 0) {
+				backlinks.set(sourcePath, new Set(linked));
 			}
 		}
 
-		return files;
+		return backlinks;
 	}
 
-	private async evaluateAutoArchiveRule(
-		file: TAbstractFile,
-		rule: AutoArchiveRule
-	): Promise<boolean> {
-		// Skip if already archived
-		if (this.isFileArchived(file)) {
-			return false;
+	/**
+	 * Reports notes that still link to the items about to be archived and
+	 * collects the links to rewrite once the items have moved. Returns
+	 * null when cancelled.
+	 */
+	private async handleBacklinks(
+		items: TAbstractFile[],
+		unattended: boolean
+	): Promise<BacklinkRewrite | null> {
+		const configured = this.settings.backlinkAction;
+		const rewrite: BacklinkRewrite = { action: "leave", sourcePaths: [] };
+		if (unattended && (configured === "ask" || configured === "leave")) {
+			return rewrite;
 		}
 
-		// No conditions means no match
-		if (rule.conditions.length === 0) {
-			return false;
+		const backlinks = this.getActiveBacklinks(items);
+		if (backlinks.size === 0) {
+			return rewrite;
 		}
 
-		// Evaluate based on logic operator (default to AND for backward compatibility)
-		const operator = rule.logicOperator || "AND";
-		if (operator === "OR") {
-			// OR logic: at least one condition must be met
-			for (const condition of rule.conditions) {
-				if (await this.evaluateCondition(file, condition)) {
-					return true;
-				}
-			}
-			return false;
-		} else {
-			// AND logic: all conditions must be met
-			for (const condition of rule.conditions) {
-				if (!(await this.evaluateCondition(file, condition))) {
-					return false;
-				}
+		let action: BacklinkAction | null = configured === "ask" ? null : configured;
+		if (action === null) {
+			action = await new Promise<BacklinkAction | null>((resolve) => {
+				new BacklinkReportModal(this.app, backlinks, resolve).open();
+			});
+
+			if (action === null) {
+				return null;
 			}
-			return true;
 		}
+
+		rewrite.action = action;
+		if (action !== "leave") {
+			rewrite.sourcePaths = [...backlinks.keys()];
+		}
+
+		return rewrite;
 	}
 
-	private async evaluateCondition(
-		file: TAbstractFile,
-		condition: AutoArchiveCondition
-	): Promise<boolean> {
-		if (condition.type === "fileAge") {
-			const ageInDays = parseInt(condition.value);
-			if (isNaN(ageInDays)) {
-				return false;
-			}
+	/**
+	 * Rewrites the links to the items that were actually moved. Moving may
+	 * already have updated links that contain a path, so the links are read
+	 * again once the metadata cache has caught up with each note.
+	 */
+	private async rewriteBacklinks(
+		rewrite: BacklinkRewrite,
+		moves: AutoArchiveMove[]
+	): Promise<void> {
+		if (rewrite.action === "leave" || moves.length === 0) {
+			return;
+		}
 
-			const stats = await this.app.vault.adapter.stat(file.path);
-			if (!stats) {
-				return false;
+		const wasMoved = (path: string) =>
+			moves.some((move) => path === move.to || path.startsWith(`${move.to}/`));
+		const annotation = this.settings.backlinkAnnotation;
+
+		for (const sourcePath of rewrite.sourcePaths) {
+			const source = this.app.vault.getFileByPath(sourcePath);
+			if (!source) {
+				continue;
 			}
 
-			const fileAgeMs = Date.now() - stats.mtime;
-			const fileAgeDays = fileAgeMs / (1000 * 60 * 60 * 24);
-			return fileAgeDays >= ageInDays;
-		} else if (condition.type === "regexPattern") {
-			try {
-				const regex = new RegExp(condition.value);
-				return regex.test(file.name);
-			} catch (error) {
-				console.error(
-					`Invalid regex pattern in auto-archive rule: ${condition.value}`,
-					error
+			const links = (await this.getCurrentReferences(source)).filter((link) => {
+				const destination = this.app.metadataCache.getFirstLinkpathDest(
+					getLinkpath(link.link),
+					source.path
 				);
-				return false;
+				return destination != null && wasMoved(destination.path);
+			});
+			if (links.length === 0) {
+				continue;
 			}
-		}
 
-		return false;
-	}
+			// Replace from the end so earlier offsets stay valid
+			links.sort((a, b) => b.position.start.offset - a.position.start.offset);
 
-	private async loadSettings() {
-		this.settings = Object.assign(
-			{},
-			DEFAULT_SETTINGS,
-			await this.loadData()
-		);
-		
-		// Ensure backward compatibility: set default logicOperator for existing rules
-		let needsSave = false;
-		if (this.settings.autoArchiveRules) {
-			this.settings.autoArchiveRules = this.settings.autoArchiveRules.map(rule => {
-				const updates: Partial<AutoArchiveRule> = {};
-				
-				if (!rule.logicOperator) {
-					needsSave = true;
-					updates.logicOperator = "AND" as "AND" | "OR";
-				}
-				
-				if (rule.useFolderRegex === undefined) {
-					needsSave = true;
-					updates.useFolderRegex = false;
-				}
-				
-				if (rule.applyRecursively === undefined) {
-					needsSave = true;
-					updates.applyRecursively = false;
+			await this.app.vault.process(source, (data) => {
+				for (const link of links) {
+					const start = link.position.start.offset;
+					const end = link.position.end.offset;
+
+					// Skip links the cache no longer describes accurately
+					if (data.substring(start, end) !== link.original) {
+						continue;
+					}
+
+					if (rewrite.action === "annotate") {
+						// Links annotated by an earlier run are left alone
+						if (data.startsWith(annotation, end)) {
+							continue;
+						}
+						data = `${data.substring(0, end)}${annotation}${data.substring(end)}`;
+					} else {
+						data = `${data.substring(0, start)}${link.displayText ?? link.link}${data.substring(end)}`;
+					}
 				}
-				
-				return { ...rule, ...updates };
+				return data;
 			});
 		}
-		
-		// Persist the migration
-		if (needsSave) {
-			await this.saveSettings();
-		}
 	}
 
-	async saveSettings() {
+	/**
+	 * Reads the links and embeds of a note, waiting for the metadata cache
+	 * to match the note's content when it has just changed.
+	 */
+	private async getCurrentReferences(file: TFile): Promise<ReferenceCache[]> {
+		for (let attempt = 0; attempt < BACKLINK_CACHE_ATTEMPTS; attempt++) {
+			const data = await this.app.vault.cachedRead(file);
+			const cache = this.app.metadataCache.getFileCache(file);
+			const references = [...(cache?.links ?? []), ...(cache?.embeds ?? [])];
+			const current = references.every(
+				(reference) =>
+					data.substring(reference.position.start.offset, reference.position.end.offset) ===
+					reference.original
+			);
+			if (current) {
+				return references;
+			}
+
+			await new Promise<void>((resolve) => {
+				const done = () => {
+					this.app.metadataCache.offref(eventRef);
+					window.clearTimeout(timeout);
+					resolve();
+				};
+				const eventRef = this.app.metadataCache.on("changed", (changed) => {
+					if (changed === file) {
+						done();
+					}
+				});
+				const timeout = window.setTimeout(done, BACKLINK_CACHE_WAIT_MS);
+			});
+		}
+
+		// Links the cache still gets wrong are skipped when rewriting
+		return [];
+	}
+
+	/**
+	 * Moves an archived item into another archive, laid out by the path
+	 * template as if it was archived from its original location.
+	 */
+	private async rearchiveFile(
+		file: TAbstractFile,
+		context: ArchiveOperationContext
+	): Promise<ArchiveResult> {
+		if (!this.isFileArchived(file)) {
+			return { success: false, message: "Item is not archived" };
+		}
+
+		return this.moveIntoArchive(file, this.getOriginalPath(file), context);
+	}
+
+	async rearchiveAllFiles(files: TAbstractFile[], archiveId: string) {
+		let archived = 0;
+		const context = this.createOperationContext("manual");
+		context.archiveId = archiveId;
+
+		for (const file of files) {
+			if ((await this.rearchiveFile(file, context)).success) {
+				archived++;
+			}
+		}
+
+		new Notice(`${archived} files moved`);
+	}
+
+	private async moveIntoArchive(
+		file: TAbstractFile,
+		originalPath: string,
+		context: ArchiveOperationContext
+	): Promise<ArchiveResult> {
+		const destinationFilePath = this.resolveArchivePath(
+			file,
+			originalPath,
+			this.getArchiveFolderPath(context.archiveId)
+		);
+
+		if (destinationFilePath === file.path) {
+			return { success: false, message: `${file.name} is already in that archive` };
+		}
+
+		const existingItem =
+			this.app.vault.getAbstractFileByPath(destinationFilePath);
+
+		if (existingItem != null) {
+			// Same item exists in archive, ask how to resolve the conflict
+			return this.resolveConflict(file, existingItem, "archive", context);
+		}
+
+		// If no existing item, proceed with archiving
+		const response = await this.moveFileToArchive(
+			file,
+			destinationFilePath,
+			context
+		);
+		return response;
+	}
+
+	private async archiveAllFiles(
+		files: TAbstractFile[],
+		archiveId?: string,
+		note?: ArchiveNote
+	) {
+		let archived = 0;
+		const context = this.createOperationContext("contextMenu");
+		context.archiveId = archiveId;
+		context.note = note;
+
+		const backlinks = (await this.confirmProtectedItems(files))
+			? await this.handleBacklinks(files, false)
+			: null;
+		if (!backlinks) {
+			new Notice("Archive operation cancelled");
+			return;
+		}
+
+		const moves: AutoArchiveMove[] = [];
+		for (const file of files) {
+			const from = file.path;
+			if ((await this.archiveFile(file, context)).success) {
+				archived++;
+				moves.push({ from, to: file.path });
+			}
+		}
+
+		await this.rewriteBacklinks(backlinks, moves);
+
+		new Notice(`${archived} files archived`);
+	}
+
+	/**
+	 * Builds the archive destination for an item from the archive path
+	 * template. The result always lives inside the archive folder.
+	 */
+	private resolveArchivePath(
+		file: TAbstractFile,
+		originalPath: string,
+		archiveFolder: string
+	): string {
+		const now = moment();
+		const resolved = this.settings.archivePathTemplate.replace(
+			/\{\{([^}]+)\}\}/g,
+			(match, token: string) =>
+				this.resolvePathToken(file, token.trim(), originalPath, archiveFolder, now) ??
+				match
+		);
+
+		const destination = normalizePath(resolved);
+		if (destination.startsWith(`${archiveFolder}/`)) {
+			return destination;
+		}
+
+		return normalizePath(`${archiveFolder}/${destination}`);
+	}
+
+	private resolvePathToken(
+		file: TAbstractFile,
+		token: string,
+		originalPath: string,
+		archiveFolder: string,
+		now: moment.Moment
+	): string | null {
+		const separator = originalPath.lastIndexOf("/");
+		const name = originalPath.substring(separator + 1);
+
+		if (token === "archiveFolder") {
+			return archiveFolder;
+		} else if (token === "originalPath") {
+			return originalPath;
+		} else if (token === "originalFolder") {
+			return separator === -1 ? "" : originalPath.substring(0, separator);
+		} else if (token === "name") {
+			return name;
+		} else if (token === "basename") {
+			return file instanceof TFile && name.endsWith(`.${file.extension}`)
+				? name.substring(0, name.length - file.extension.length - 1)
+				: name;
+		}
+
+		if (token.startsWith("frontmatter.")) {
+			const key = token.substring("frontmatter.".length);
+			const frontmatter =
+				file instanceof TFile
+					? this.app.metadataCache.getFileCache(file)?.frontmatter
+					: undefined;
+			const value = frontmatter?.[key];
+			return value == null ? "" : this.sanitizePathSegment(String(value));
+		}
+
+		const dateToken = /^(date|ctime|mtime):(.+)$/.exec(token);
+		if (dateToken) {
+			// Folders have no stat, so their dates fall back to now
+			let date = now;
+			if (file instanceof TFile && dateToken[1] !== "date") {
+				date = moment(dateToken[1] === "ctime" ? file.stat.ctime : file.stat.mtime);
+			}
+			return this.sanitizePathSegment(date.format(dateToken[2]));
+		}
+
+		// Bare date formats such as {{YYYY}} or {{MM}} use the archive time
+		if (/^[YMDQWd]+$/.test(token)) {
+			return now.format(token);
+		}
+
+		return null;
+	}
+
+	private sanitizePathSegment(value: string): string {
+		return value.replace(/[\\/:*?"<>|#^[\]]/g, "-").trim();
+	}
+
+	/**
+	 * Looks up where an archived item originally lived. Items inside an
+	 * archived folder resolve through the folder's record.
+	 */
+	getOriginalPath(file: TAbstractFile): string {
+		let archivedPath = file.path;
+		let remainder = "";
+
+		for (;;) {
+			const originalPath = this.settings.originalPaths[archivedPath];
+			if (originalPath !== undefined) {
+				return normalizePath(`${originalPath}${remainder}`);
+			}
+
+			const separator = archivedPath.lastIndexOf("/");
+			if (separator === -1) {
+				break;
+			}
+
+			remainder = `${archivedPath.substring(separator)}${remainder}`;
+			archivedPath = archivedPath.substring(0, separator);
+		}
+
+		// Stamped frontmatter is the next best record
+		if (file instanceof TFile) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			const archivedFrom = frontmatter?.[this.settings.frontmatterKeys.archivedFrom];
+			if (typeof archivedFrom === "string" && archivedFrom) {
+				return normalizePath(archivedFrom);
+			}
+		}
+
+		// No record, so assume the item mirrors its original path
+		const archiveFolder =
+			this.getContainingArchiveFolder(file.path) ?? this.settings.archiveFolder;
+		return file.path.substring(archiveFolder.length + 1);
+	}
+
+	private forgetOriginalPaths(archivedPath: string): boolean {
+		let changed = false;
+
+		for (const path of Object.keys(this.settings.originalPaths)) {
+			if (path === archivedPath || path.startsWith(`${archivedPath}/`)) {
+				delete this.settings.originalPaths[path];
+				changed = true;
+			}
+		}
+
+		return changed;
+	}
+
+	private forgetLastOpened(path: string): boolean {
+		let changed = false;
+
+		for (const openedPath of Object.keys(this.settings.lastOpened)) {
+			if (openedPath === path || openedPath.startsWith(`${path}/`)) {
+				delete this.settings.lastOpened[openedPath];
+				changed = true;
+			}
+		}
+
+		return changed;
+	}
+
+	/**
+	 * Keeps files excluded by path protected when they are renamed.
+	 */
+	private moveExcludedFiles(oldPath: string, newPath: string): boolean {
+		let changed = false;
+
+		const lists = [
+			this.settings.exclusions.files,
+			...this.settings.autoArchiveRules.map((rule) => rule.exclusions?.files ?? []),
+		];
+		for (const files of lists) {
+			files.forEach((path, index) => {
+				if (path === oldPath || path.startsWith(`${oldPath}/`)) {
+					files[index] = `${newPath}${path.substring(oldPath.length)}`;
+					changed = true;
+				}
+			});
+		}
+
+		return changed;
+	}
+
+	private forgetCarriedAttachments(path: string): boolean {
+		const carried = this.settings.carriedAttachments;
+		this.settings.carriedAttachments = carried.filter(
+			(carriedPath) => carriedPath !== path && !carriedPath.startsWith(`${path}/`)
+		);
+		return this.settings.carriedAttachments.length !== carried.length;
+	}
+
+	private moveCarriedAttachments(oldPath: string, newPath: string): boolean {
+		let changed = false;
+
+		this.settings.carriedAttachments = this.settings.carriedAttachments.flatMap((path) => {
+			if (path !== oldPath && !path.startsWith(`${oldPath}/`)) {
+				return [path];
+			}
+
+			changed = true;
+			const movedPath = `${newPath}${path.substring(oldPath.length)}`;
+
+			// Attachments moved out of the archive are no longer carried
+			return this.getContainingArchiveFolder(movedPath) !== null ? [movedPath] : [];
+		});
+
+		return changed;
+	}
+
+	private moveLastOpened(oldPath: string, newPath: string): boolean {
+		let changed = false;
+
+		for (const path of Object.keys(this.settings.lastOpened)) {
+			if (path !== oldPath && !path.startsWith(`${oldPath}/`)) {
+				continue;
+			}
+
+			const movedPath = `${newPath}${path.substring(oldPath.length)}`;
+			this.settings.lastOpened[movedPath] = this.settings.lastOpened[path];
+			delete this.settings.lastOpened[path];
+			changed = true;
+		}
+
+		return changed;
+	}
+
+	/**
+	 * Keeps the original path index pointing at the right archived paths
+	 * when items are moved or renamed inside the archive.
+	 */
+	private moveOriginalPaths(oldPath: string, newPath: string): boolean {
+		let changed = false;
+
+		for (const path of Object.keys(this.settings.originalPaths)) {
+			if (path !== oldPath && !path.startsWith(`${oldPath}/`)) {
+				continue;
+			}
+
+			const movedPath = `${newPath}${path.substring(oldPath.length)}`;
+			const originalPath = this.settings.originalPaths[path];
+			delete this.settings.originalPaths[path];
+			changed = true;
+
+			// Items moved out of the archive by hand no longer need a record
+			if (this.getContainingArchiveFolder(movedPath) !== null) {
+				this.settings.originalPaths[movedPath] = originalPath;
+			}
+		}
+
+		return changed;
+	}
+
+	private async moveFileToArchive(
+		file: TAbstractFile,
+		destinationFilePath: string,
+		context: ArchiveOperationContext
+	): Promise<ArchiveResult> {
+		const sourcePath = file.path;
+		const attachments =
+			this.settings.archiveAttachments && !this.isFileArchived(file)
+				? this.getAttachmentsToCarry(file)
+				: [];
+		const originalPath = this.isFileArchived(file)
+			? this.getOriginalPath(file)
+			: sourcePath;
+		const destinationPath = destinationFilePath.substring(
+			0,
+			destinationFilePath.lastIndexOf("/")
+		);
+
+		const destinationFolder =
+			this.app.vault.getFolderByPath(destinationPath);
+
+		if (destinationFolder == null) {
+			await this.app.vault.createFolder(destinationPath);
+		}
+
+		let result: ArchiveResult;
+		try {
+			await this.app.fileManager.renameFile(file, destinationFilePath);
+			this.settings.originalPaths[destinationFilePath] = originalPath;
+			result = {
+				success: true,
+				message: `${file.name} archived successfully`,
+			};
+		} catch (error) {
+			result = {
+				success: false,
+				message: `Unable to archive ${file.name}: ${error}`,
+			};
+		}
+
+		// The archive note is kept with the item even when stamping is off
+		if (result.success && (this.settings.stampFrontmatter || context.note)) {
+			await this.stampArchiveFrontmatter(file, originalPath, context);
+		}
+
+		await this.recordHistory(
+			"archive",
+			sourcePath,
+			destinationFilePath,
+			context,
+			result
+		);
+
+		if (result.success && context.attachment) {
+			this.settings.carriedAttachments.push(destinationFilePath);
+			await this.saveSettings();
+		}
+
+		if (result.success) {
+			for (const attachment of attachments) {
+				await this.archiveFile(attachment, { ...context, attachment: true });
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Finds the attachments linked or embedded by an item that no active
+	 * note outside the item uses, so they can be archived with it.
+	 */
+	private getAttachmentsToCarry(item: TAbstractFile): TFile[] {
+		const itemFiles = item instanceof TFolder ? this.getFilesFromFolder(item, true) : [item];
+		const itemPaths = new Set(itemFiles.map((file) => file.path));
+		const resolvedLinks = this.app.metadataCache.resolvedLinks;
+
+		const candidates = new Set<string>();
+		for (const path of itemPaths) {
+			for (const linkedPath of Object.keys(resolvedLinks[path] ?? {})) {
+				if (!itemPaths.has(linkedPath) && !linkedPath.endsWith(".md")) {
+					candidates.add(linkedPath);
+				}
+			}
+		}
+
+		// Attachments used by active notes outside the item stay in place.
+		// Notes archived earlier in the same batch may linger in the link
+		// cache under paths that no longer exist.
+		for (const [sourcePath, links] of Object.entries(resolvedLinks)) {
+			if (
+				itemPaths.has(sourcePath) ||
+				this.getContainingArchiveFolder(sourcePath) !== null ||
+				this.app.vault.getAbstractFileByPath(sourcePath) == null
+			) {
+				continue;
+			}
+
+			for (const linkedPath of Object.keys(links)) {
+				candidates.delete(linkedPath);
+			}
+		}
+
+		const attachments: TFile[] = [];
+		for (const path of candidates) {
+			const file = this.app.vault.getFileByPath(path);
+			if (file && !this.isFileArchived(file) && this.getProtectionReason(file) === null) {
+				attachments.push(file);
+			}
+		}
+		return attachments;
+	}
+
+	/**
+	 * Finds the carried attachments that an archived item links to.
+	 */
+	private getCarriedAttachments(item: TAbstractFile): TFile[] {
+		const itemFiles = item instanceof TFolder ? this.getFilesFromFolder(item, true) : [item];
+		const carried = new Set(this.settings.carriedAttachments);
+		const attachments = new Set<TFile>();
+
+		for (const file of itemFiles) {
+			const links = this.app.metadataCache.resolvedLinks[file.path] ?? {};
+			for (const linkedPath of Object.keys(links)) {
+				const attachment = this.app.vault.getFileByPath(linkedPath);
+				if (attachment && carried.has(linkedPath)) {
+					attachments.add(attachment);
+				}
+			}
+		}
+
+		return [...attachments];
+	}
+
+	private getMarkdownFiles(item: TAbstractFile): TFile[] {
+		const files = item instanceof TFolder ? this.getFilesFromFolder(item, true) : [item];
+		return files.filter(
+			(file): file is TFile => file instanceof TFile && file.extension === "md"
+		);
+	}
+
+	/**
+	 * Records when, why and from where an item was archived in the
+	 * frontmatter of every note it contains. Only the archive note is
+	 * recorded when stamping is turned off.
+	 */
+	private async stampArchiveFrontmatter(
+		item: TAbstractFile,
+		originalPath: string,
+		context: ArchiveOperationContext
+	): Promise<void> {
+		const keys = this.settings.frontmatterKeys;
+		const archivedAt = moment().format("YYYY-MM-DDTHH:mm:ss");
+		const rule = this.settings.autoArchiveRules.find((r) => r.id === context.ruleId);
+
+		for (const file of this.getMarkdownFiles(item)) {
+			// Notes inside an archived folder record their own original path
+			const archivedFrom = normalizePath(
+				`${originalPath}${file.path.substring(item.path.length)}`
+			);
+
+			try {
+				await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+					if (this.settings.stampFrontmatter) {
+						frontmatter[keys.archivedAt] = archivedAt;
+						frontmatter[keys.archivedFrom] = archivedFrom;
+					}
+					// The id identifies the rule even when folder paths repeat or are empty
+					if (rule && this.settings.stampFrontmatter) {
+						frontmatter[keys.archivedByRule] = rule.id;
+					}
+					if (context.note?.reason) {
+						frontmatter[keys.reason] = context.note.reason;
+					}
+					if (context.note && context.note.tags.length > 0) {
+						frontmatter[keys.tags] = context.note.tags;
+					}
+				});
+			} catch (error) {
+				console.error(`Unable to update frontmatter of ${file.path}`, error);
+			}
+		}
+	}
+
+	private async clearArchiveFrontmatter(item: TAbstractFile): Promise<void> {
+		const keys = this.settings.frontmatterKeys;
+		const stampKeys = [
+			keys.archivedAt,
+			keys.archivedFrom,
+			keys.archivedByRule,
+			keys.reason,
+			keys.tags,
+		];
+
+		for (const file of this.getMarkdownFiles(item)) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter || !stampKeys.some((key) => key in frontmatter)) {
+				continue;
+			}
+
+			try {
+				await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+					if (this.settings.unarchiveFrontmatter === "history") {
+						const stamp: Record<string, unknown> = {};
+						for (const key of stampKeys) {
+							if (key in frontmatter) {
+								stamp[key] = frontmatter[key];
+							}
+						}
+						stamp.unarchived_at = moment().format("YYYY-MM-DDTHH:mm:ss");
+
+						const history = frontmatter[ARCHIVE_HISTORY_KEY];
+						frontmatter[ARCHIVE_HISTORY_KEY] = Array.isArray(history)
+							? [...history, stamp]
+							: [stamp];
+					}
+
+					for (const key of stampKeys) {
+						delete frontmatter[key];
+					}
+				});
+			} catch (error) {
+				console.error(`Unable to update frontmatter of ${file.path}`, error);
+			}
+		}
+	}
+
+	private async moveFileOutOfArchive(
+		file: TAbstractFile,
+		originalPath: string,
+		context: ArchiveOperationContext
+	): Promise<ArchiveResult> {
+		const sourcePath = file.path;
+		const attachments = this.getCarriedAttachments(file);
+		const originalParentPath = originalPath.substring(
+			0,
+			originalPath.lastIndexOf("/")
+		);
+
+		if (originalParentPath) {
+			const originalFolder =
+				this.app.vault.getFolderByPath(originalParentPath);
+
+			if (originalFolder == null) {
+				await this.app.vault.createFolder(normalizePath(originalParentPath));
+			}
+		}
+
+		let result: ArchiveResult;
+		try {
+			await this.app.fileManager.renameFile(file, normalizePath(originalPath));
+			this.forgetOriginalPaths(sourcePath);
+			result = {
+				success: true,
+				message: `${file.name} unarchived successfully`,
+			};
+		} catch (error) {
+			result = {
+				success: false,
+				message: `Unable to unarchive ${file.name}: ${error}`,
+			};
+		}
+
+		if (result.success) {
+			await this.clearArchiveFrontmatter(file);
+		}
+
+		await this.recordHistory(
+			"unarchive",
+			sourcePath,
+			normalizePath(originalPath),
+			context,
+			result
+		);
+
+		// Bring back the attachments that were archived along with the item
+		if (result.success) {
+			for (const attachment of attachments) {
+				if (this.isFileArchived(attachment)) {
+					await this.unarchiveFile(attachment, context);
+				}
+			}
+		}
+
+		return result;
+	}
+
+	private async unarchiveFile(
+		file: TAbstractFile,
+		context: ArchiveOperationContext
+	): Promise<ArchiveResult> {
+		if (!this.isFileArchived(file)) {
+			return { success: false, message: "Item is not archived" };
+		}
+
+		if (file instanceof TFile && file.extension === "zip") {
+			const result = await this.extractZipBundle(file, context);
+			// Plain zip files without a manifest are moved like any other file
+			if (result !== null) {
+				return result;
+			}
+		}
+
+		const originalPath = this.getOriginalPath(file);
+
+		const existingItem = this.app.vault.getAbstractFileByPath(originalPath);
+
+		if (existingItem != null) {
+			return this.resolveConflict(file, existingItem, "unarchive", context);
+		}
+
+		const response = await this.moveFileOutOfArchive(
+			file,
+			originalPath,
+			context
+		);
+		return response;
+	}
+
+	/**
+	 * Packs a file or folder into a compressed zip bundle in the archive.
+	 * The bundle carries a manifest of the original paths.
+	 */
+	async archiveAsZipBundle(
+		file: TAbstractFile,
+		context: ArchiveOperationContext
+	): Promise<ArchiveResult> {
+		if (this.isFileArchived(file)) {
+			return { success: false, message: "Item is already archived" };
+		}
+
+		const files = file instanceof TFolder ? this.getFilesFromFolder(file, true) : [file as TFile];
+		if (files.length === 0) {
+			return { success: false, message: `${file.name} has no files to archive` };
+		}
+
+		let zipPath = `${this.resolveArchivePath(
+			file,
+			file.path,
+			this.getArchiveFolderPath(context.archiveId)
+		)}.zip`;
+
+		const existingItem = this.app.vault.getAbstractFileByPath(zipPath);
+		if (existingItem != null) {
+			const resolution = await this.chooseConflictResolution(
+				existingItem,
+				"archive",
+				["replace", "rename", "skip"],
+				context
+			);
+
+			if (resolution === null) {
+				return { success: false, message: "Archive operation cancelled" };
+			} else if (resolution === "skip") {
+				return { success: false, message: `${file.name} skipped` };
+			} else if (resolution === "replace") {
+				await this.app.fileManager.trashFile(existingItem);
+			} else {
+				zipPath = this.getAvailablePath(existingItem);
+			}
+		}
+
+		// Paths inside the bundle are relative to the item's parent folder
+		const rootLength = file.parent && !file.parent.isRoot() ? file.parent.path.length + 1 : 0;
+		const manifest: ZipBundleManifest = {
+			version: ZIP_MANIFEST_VERSION,
+			createdAt: Date.now(),
+			originalPath: file.path,
+			files: [],
+		};
+		const entries: Zippable = {};
+
+		let result: ArchiveResult;
+		try {
+			for (const bundledFile of files) {
+				const path = bundledFile.path.substring(rootLength);
+				entries[path] = new Uint8Array(await this.app.vault.readBinary(bundledFile));
+				manifest.files.push({ path, originalPath: bundledFile.path });
+			}
+			entries[ZIP_MANIFEST_NAME] = strToU8(JSON.stringify(manifest, null, 2));
+
+			const data = zipSync(entries, { level: 6 });
+
+			await this.ensureParentFolder(zipPath);
+			await this.app.vault.adapter.writeBinary(
+				zipPath,
+				data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+			);
+			await this.app.fileManager.trashFile(file);
+
+			this.settings.originalPaths[zipPath] = manifest.originalPath;
+			result = {
+				success: true,
+				message: `${file.name} archived to ${zipPath}`,
+			};
+		} catch (error) {
+			result = {
+				success: false,
+				message: `Unable to archive ${file.name} as zip: ${error}`,
+			};
+		}
+
+		await this.recordHistory(
+			"archive",
+			manifest.originalPath,
+			zipPath,
+			context,
+			result,
+			true
+		);
+		return result;
+	}
+
+	/**
+	 * Extracts a zip bundle back to the original paths in its manifest.
+	 * Returns null when the zip is not a bundle made by this plugin.
+	 */
+	private async extractZipBundle(
+		zip: TFile,
+		context: ArchiveOperationContext
+	): Promise<ArchiveResult | null> {
+		let unzipped: Unzipped;
+		try {
+			unzipped = unzipSync(new Uint8Array(await this.app.vault.readBinary(zip)));
+		} catch (error) {
+			return null;
+		}
+
+		const manifestData = unzipped[ZIP_MANIFEST_NAME];
+		if (!manifestData) {
+			return null;
+		}
+
+		let manifest: ZipBundleManifest;
+		try {
+			manifest = JSON.parse(strFromU8(manifestData)) as ZipBundleManifest;
+		} catch (error) {
+			return { success: false, message: `${zip.name} has an unreadable manifest: ${error}` };
+		}
+		if (!Array.isArray(manifest?.files) || typeof manifest.originalPath !== "string") {
+			return { success: false, message: `${zip.name} has an unreadable manifest` };
+		}
+
+		const unsafeEntry = manifest.files.find(
+			(entry) => this.getBundlePathError(entry.originalPath) !== null
+		);
+		if (unsafeEntry) {
+			return {
+				success: false,
+				message: `${zip.name} was not extracted: ${this.getBundlePathError(unsafeEntry.originalPath)}`,
+			};
+		}
+
+		const zipPath = zip.path;
+		let extracted = 0;
+		let skipped = 0;
+		let cancelled = false;
+		let failure: string | null = null;
+
+		for (const entry of manifest.files) {
+			const content = unzipped[entry.path];
+			if (!content) {
+				skipped++;
+				continue;
+			}
+
+			let targetPath = normalizePath(entry.originalPath);
+			const existingItem = this.app.vault.getAbstractFileByPath(targetPath);
+
+			try {
+				if (existingItem != null) {
+					const resolution = await this.chooseConflictResolution(
+						existingItem,
+						"unarchive",
+						["replace", "rename", "skip"],
+						context
+					);
+
+					if (resolution === null) {
+						cancelled = true;
+						break;
+					} else if (resolution === "skip") {
+						skipped++;
+						continue;
+					} else if (resolution === "replace") {
+						await this.app.fileManager.trashFile(existingItem);
+					} else {
+						targetPath = this.getAvailablePath(existingItem);
+					}
+				}
+
+				await this.ensureParentFolder(targetPath);
+				await this.app.vault.createBinary(
+					targetPath,
+					content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength)
+				);
+				extracted++;
+			} catch (error) {
+				failure = `Unable to extract ${targetPath}: ${error}`;
+				break;
+			}
+		}
+
+		// Keep the bundle while anything in it has not been restored
+		const complete = !cancelled && failure === null && extracted === manifest.files.length;
+		if (complete) {
+			try {
+				await this.app.fileManager.trashFile(zip);
+			} catch (error) {
+				failure = `${zip.name} extracted but could not be removed: ${error}`;
+			}
+		}
+
+		const result: ArchiveResult = {
+			success: extracted > 0 && failure === null,
+			message: failure
+				? failure
+				: complete
+				? `${zip.name} extracted successfully`
+				: `${extracted} of ${manifest.files.length} files extracted from ${zip.name}, ${skipped} skipped`,
+		};
+
+		await this.recordHistory(
+			"unarchive",
+			zipPath,
+			manifest.originalPath,
+			context,
+			result,
+			true
+		);
+		return result;
+	}
+
+	/**
+	 * Explains why a path from a bundle manifest can't be written, or
+	 * returns null when it stays inside the vault and outside the config folder.
+	 */
+	private getBundlePathError(path: unknown): string | null {
+		if (typeof path !== "string" || path.trim() === "") {
+			return "a file in the bundle has no path";
+		}
+
+		if (/^([/\\]|[a-zA-Z]:)/.test(path)) {
+			return `${path} is an absolute path`;
+		}
+
+		if (path.split(/[/\\]/).some((segment) => segment === "..")) {
+			return `${path} points outside the vault`;
+		}
+
+		const normalized = normalizePath(path);
+		const configDir = this.app.vault.configDir;
+		if (normalized === configDir || normalized.startsWith(`${configDir}/`)) {
+			return `${path} is inside the ${configDir} folder`;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Lists the contents of a zip bundle without extracting it.
+	 */
+	async listZipBundle(zip: TFile): Promise<ZipBundleEntry[]> {
+		const entries: ZipBundleEntry[] = [];
+
+		// The filter sees every entry but only the manifest gets decompressed
+		const unzipped = unzipSync(new Uint8Array(await this.app.vault.readBinary(zip)), {
+			filter: (file) => {
+				if (file.name !== ZIP_MANIFEST_NAME) {
+					entries.push({ name: file.name, size: file.originalSize });
+				}
+				return file.name === ZIP_MANIFEST_NAME;
+			},
+		});
+
+		const manifestData = unzipped[ZIP_MANIFEST_NAME];
+		if (manifestData) {
+			let manifest: ZipBundleManifest | null = null;
+			try {
+				manifest = JSON.parse(strFromU8(manifestData)) as ZipBundleManifest;
+			} catch (error) {
+				// Still list the entries when the manifest is unreadable
+			}
+			const files = Array.isArray(manifest?.files) ? manifest?.files ?? [] : [];
+			for (const entry of entries) {
+				entry.originalPath = files.find((f) => f.path === entry.name)?.originalPath;
+			}
+		}
+
+		return entries;
+	}
+
+	async ensureParentFolder(path: string): Promise<void> {
+		const parentPath = path.substring(0, path.lastIndexOf("/"));
+
+		if (parentPath && this.app.vault.getFolderByPath(parentPath) == null) {
+			await this.app.vault.createFolder(parentPath);
+		}
+	}
+
+	private async moveItem(
+		file: TAbstractFile,
+		destinationPath: string,
+		operation: ArchiveOperation,
+		context: ArchiveOperationContext
+	): Promise<ArchiveResult> {
+		return operation === "archive"
+			? this.moveFileToArchive(file, destinationPath, context)
+			: this.moveFileOutOfArchive(file, destinationPath, context);
+	}
+
+	/**
+	 * Settles a move whose destination is already taken, either with the
+	 * resolution chosen earlier in the batch or by asking the user.
+	 */
+	private async resolveConflict(
+		file: TAbstractFile,
+		existingItem: TAbstractFile,
+		operation: ArchiveOperation,
+		context: ArchiveOperationContext
+	): Promise<ArchiveResult> {
+		if (context.conflictPolicy) {
+			return this.applyConflictPolicy(file, existingItem, operation, context);
+		}
+
+		const resolution = await this.chooseConflictResolution(
+			file,
+			operation,
+			this.getConflictOptions(file, existingItem),
+			context
+		);
+
+		if (resolution === null) {
+			return {
+				success: false,
+				message: `${operation === "archive" ? "Archive" : "Unarchive"} operation cancelled`,
+			};
+		}
+
+		switch (resolution) {
+			case "replace":
+				await this.app.fileManager.trashFile(existingItem);
+				return this.moveItem(file, existingItem.path, operation, context);
+			case "rename":
+				return this.moveItem(
+					file,
+					this.getAvailablePath(existingItem),
+					operation,
+					context
+				);
+			case "merge":
+				return this.mergeFolder(
+					file as TFolder,
+					existingItem as TFolder,
+					operation,
+					context
+				);
+			case "keepNewer":
+				if ((file as TFile).stat.mtime >= (existingItem as TFile).stat.mtime) {
+					await this.app.fileManager.trashFile(existingItem);
+					return this.moveItem(file, existingItem.path, operation, context);
+				}
+
+				// The item at the destination is newer, so the one being moved is
+				// dropped. Nothing moved, so it isn't counted or recorded as a move.
+				await this.app.fileManager.trashFile(file);
+				return {
+					success: false,
+					message: `Kept the newer copy of ${file.name} at ${existingItem.path} and moved the older one to the trash`,
+				};
+			case "skip":
+				return { success: false, message: `${file.name} skipped` };
+		}
+	}
+
+	/**
+	 * Returns the resolution chosen earlier in the batch if it applies,
+	 * otherwise asks the user. Null means the user cancelled.
+	 */
+	private async chooseConflictResolution(
+		file: TAbstractFile,
+		operation: ArchiveOperation,
+		options: ConflictResolution[],
+		context: ArchiveOperationContext
+	): Promise<ConflictResolution | null> {
+		const resolution = context.conflictResolution;
+		if (resolution !== undefined && options.includes(resolution)) {
+			return resolution;
+		}
+
+		const choice = await this.promptConflictResolution(file, operation, options);
+		if (choice === null) {
+			return null;
+		}
+
+		if (choice.applyToAll) {
+			context.conflictResolution = choice.resolution;
+		}
+		return choice.resolution;
+	}
+
+	/**
+	 * Settles a conflict without prompting, for auto-archive runs in the
+	 * background. Anything left unresolved is queued for the user.
+	 */
+	private async applyConflictPolicy(
+		file: TAbstractFile,
+		existingItem: TAbstractFile,
+		operation: ArchiveOperation,
+		context: ArchiveOperationContext
+	): Promise<ArchiveResult> {
+		let reason: string;
+
+		switch (context.conflictPolicy) {
+			case "rename":
+				return this.moveItem(
+					file,
+					this.getAvailablePath(existingItem),
+					operation,
+					context
+				);
+			case "replaceOlder":
+				if (
+					file instanceof TFile &&
+					existingItem instanceof TFile &&
+					existingItem.stat.mtime < file.stat.mtime
+				) {
+					await this.app.fileManager.trashFile(existingItem);
+					return this.moveItem(file, existingItem.path, operation, context);
+				}
+				reason = "Skipped: the existing item is not older";
+				break;
+			case "queue":
+				reason = "Queued for review: an item already exists at the destination";
+				break;
+			default:
+				reason = "Skipped: an item already exists at the destination";
+		}
+
+		await this.addNeedsAttention(file, existingItem.path, context, reason);
+		return { success: false, message: `${file.name}: ${reason}` };
+	}
+
+	private getConflictOptions(
+		file: TAbstractFile,
+		existingItem: TAbstractFile
+	): ConflictResolution[] {
+		const options: ConflictResolution[] = ["replace", "rename"];
+
+		if (file instanceof TFolder && existingItem instanceof TFolder) {
+			options.push("merge");
+		} else if (file instanceof TFile && existingItem instanceof TFile) {
+			options.push("keepNewer");
+		}
+
+		options.push("skip");
+		return options;
+	}
+
+	private promptConflictResolution(
+		file: TAbstractFile,
+		operation: ArchiveOperation,
+		options: ConflictResolution[]
+	): Promise<ConflictChoice | null> {
+		const location =
+			operation === "archive"
+				? "the destination folder in the archive"
+				: "the original location";
+
+		return new Promise((resolve) => {
+			new ConflictResolutionModal(
+				this.app,
+				`An item called "${file.name}" already exists in ${location}. What would you like to do?`,
+				options,
+				resolve
+			).open();
+		});
+	}
+
+	/**
+	 * Finds a free path next to the given item, e.g. "note (2).md" or
+	 * "note 20250314-120000.md" depending on the rename style setting.
+	 */
+	private getAvailablePath(item: TAbstractFile): string {
+		const extension = item instanceof TFile ? `.${item.extension}` : "";
+		const basePath = item.path.substring(0, item.path.length - extension.length);
+
+		if (this.settings.conflictRenameStyle === "timestamp") {
+			const candidate = `${basePath} ${moment().format("YYYYMMDD-HHmmss")}${extension}`;
+			if (this.app.vault.getAbstractFileByPath(candidate) == null) {
+				return candidate;
+			}
+		}
+
+		let counter = 2;
+		while (
+			this.app.vault.getAbstractFileByPath(`${basePath} (${counter})${extension}`) != null
+		) {
+			counter++;
+		}
+
+		return `${basePath} (${counter})${extension}`;
+	}
+
+	private async mergeFolder(
+		source: TFolder,
+		target: TFolder,
+		operation: ArchiveOperation,
+		context: ArchiveOperationContext
+	): Promise<ArchiveResult> {
+		let moved = 0;
+		let failed = 0;
+
+		// Copy the children list since moving items mutates it
+		for (const child of [...source.children]) {
+			const childPath = normalizePath(`${target.path}/${child.name}`);
+			const existingChild = this.app.vault.getAbstractFileByPath(childPath);
+
+			const result =
+				existingChild != null
+					? await this.resolveConflict(child, existingChild, operation, context)
+					: await this.moveItem(child, childPath, operation, context);
+
+			if (result.success) {
+				moved++;
+			} else {
+				failed++;
+			}
+		}
+
+		if (source.children.length === 0) {
+			await this.app.fileManager.trashFile(source);
+		}
+
+		return {
+			success: moved > 0 || failed === 0,
+			message:
+				failed > 0
+					? `${source.name} merged, ${failed} items left in place`
+					: `${source.name} merged successfully`,
+		};
+	}
+
+	async unarchiveAllFiles(files: TAbstractFile[]) {
+		let unarchived = 0;
+		const context = this.createOperationContext("contextMenu");
+
+		for (const file of files) {
+			if ((await this.unarchiveFile(file, context)).success) {
+				unarchived++;
+			}
+		}
+
+		new Notice(`${unarchived} files unarchived`);
+	}
+
+	onunload() {
+		// Clean up auto-archive interval
+		if (this.autoArchiveInterval !== null) {
+			window.clearInterval(this.autoArchiveInterval);
+			this.autoArchiveInterval = null;
+		}
+
+		// Write any history still waiting to be saved
+		this.requestSaveSettings.run();
+	}
+
+	scheduleAutoArchive() {
+		// Clear existing interval if any
+		if (this.autoArchiveInterval !== null) {
+			window.clearInterval(this.autoArchiveInterval);
+		}
+
+		// Rules are checked regularly and run once their schedule is due
+		this.autoArchiveInterval = window.setInterval(
+			() => this.runDueAutoArchiveRules(),
+			SCHEDULE_CHECK_INTERVAL_MS
+		);
+	}
+
+	getRuleSchedule(rule: AutoArchiveRule): AutoArchiveSchedule {
+		return rule.schedule ?? this.settings.autoArchiveSchedule;
+	}
+
+	/**
+	 * Returns the first time after the last run that the schedule is due.
+	 */
+	getNextRunTime(schedule: AutoArchiveSchedule, lastRun: number): number {
+		if (schedule.type === "interval") {
+			return lastRun + schedule.frequency * 60 * 1000;
+		}
+
+		const [hours, minutes] = schedule.time.split(":").map((part) => parseInt(part));
+		const atTime = (date: moment.Moment) =>
+			date.hours(hours || 0).minutes(minutes || 0).seconds(0).milliseconds(0);
+
+		if (schedule.type === "daily") {
+			const next = atTime(moment(lastRun));
+			return next.valueOf() > lastRun ? next.valueOf() : next.add(1, "day").valueOf();
+		}
+
+		if (schedule.type === "weekly") {
+			const next = atTime(moment(lastRun).day(schedule.weekday));
+			return next.valueOf() > lastRun ? next.valueOf() : next.add(1, "week").valueOf();
+		}
+
+		const inMonth = (month: moment.Moment) =>
+			atTime(month.date(Math.min(schedule.dayOfMonth, month.daysInMonth())));
+
+		const next = inMonth(moment(lastRun));
+		return next.valueOf() > lastRun
+			? next.valueOf()
+			: inMonth(moment(lastRun).startOf("month").add(1, "month")).valueOf();
+	}
+
+	async runDueAutoArchiveRules() {
+		if (this.autoArchiveRunning) {
+			return;
+		}
+
+		const now = Date.now();
+		let needsSave = false;
+
+		const dueRules = this.settings.autoArchiveRules.filter((rule) => {
+			if (!rule.enabled) {
+				return false;
+			}
+
+			// New rules start their schedule now instead of running straight away
+			if (rule.lastRun === undefined) {
+				rule.lastRun = now;
+				needsSave = true;
+				return false;
+			}
+
+			return now >= this.getNextRunTime(this.getRuleSchedule(rule), rule.lastRun);
+		});
+
+		if (dueRules.length > 0) {
+			await this.processAutoArchiveRules(dueRules);
+		} else if (needsSave) {
+			await this.saveSettings();
+		}
+	}
+
+	getTriggeredRules(trigger: AutoArchiveEventTrigger): AutoArchiveRule[] {
+		return this.settings.autoArchiveRules.filter(
+			(rule) => rule.enabled && rule.triggers?.includes(trigger)
+		);
+	}
+
+	queueTriggeredFile(file: TAbstractFile, trigger: AutoArchiveEventTrigger) {
+		if (!(file instanceof TFile) || this.isFileArchived(file)) {
+			return;
+		}
+
+		for (const rule of this.getTriggeredRules(trigger)) {
+			if (!this.isFileInRuleFolder(file, rule)) {
+				continue;
+			}
+
+			// A new file can make older files in the same folder match, as when
+			// the next daily note is created, so its siblings are evaluated too
+			const files =
+				trigger === "create" && file.parent
+					? this.getFilesFromFolder(file.parent, false)
+					: [file];
+
+			for (const affected of files) {
+				const ruleIds = this.pendingTriggers.get(affected.path) ?? new Set();
+				ruleIds.add(rule.id);
+				this.pendingTriggers.set(affected.path, ruleIds);
+			}
+		}
+
+		if (this.pendingTriggers.size > 0) {
+			this.requestTriggeredRules();
+		}
+	}
+
+	async processTriggeredRules() {
+		// Try again once the running job has finished
+		if (this.autoArchiveRunning) {
+			this.requestTriggeredRules();
+			return;
+		}
+
+		const pending = this.pendingTriggers;
+		this.pendingTriggers = new Map();
+
+		const matches: AutoArchiveRuleMatch[] = [];
+		let errors: string[];
+		try {
+			this.ruleErrors = new Set();
+			for (const [path, ruleIds] of pending) {
+				const file = this.app.vault.getFileByPath(path);
+				if (!file || this.isFileArchived(file)) {
+					continue;
+				}
+
+				// As with scheduled runs, the first matching rule archives the file
+				for (const rule of this.settings.autoArchiveRules) {
+					if (!rule.enabled || !ruleIds.has(rule.id)) {
+						continue;
+					}
+
+					let match = matches.find((m) => m.rule === rule);
+					if (!match) {
+						match = { rule, files: [], skipped: [], moved: [], errors: [] };
+						matches.push(match);
+					}
+
+					const ruleMatch = match;
+					if (
+						await this.collectRuleErrors(ruleMatch.errors, () =>
+							this.evaluateAutoArchiveRule(file, rule, ruleMatch.skipped)
+						)
+					) {
+						match.files.push(file);
+						break;
+					}
+				}
+			}
+		} finally {
+			errors = [...(this.ruleErrors ?? [])];
+			this.ruleErrors = null;
+		}
+
+		if (
+			errors.length === 0 &&
+			matches.every((match) => match.files.length === 0 && match.skipped.length === 0)
+		) {
+			return;
+		}
+
+		this.autoArchiveRunning = true;
+		const attentionBefore = this.settings.needsAttention.length;
+		let summary: AutoArchiveRunSummary;
+		try {
+			summary = await this.archiveMatchedFiles(matches, true);
+			summary.errors = errors;
+		} finally {
+			this.autoArchiveRunning = false;
+		}
+
+		// A single file's evaluation only replaces the health of the last full
+		// run when it found something to report
+		this.recordRuleResults({
+			...summary,
+			matches: summary.matches.filter(
+				(match) =>
+					match.files.length > 0 || match.skipped.length > 0 || match.errors.length > 0
+			),
+		});
+		await this.saveSettings();
+
+		this.logRunSummary(summary);
+		await this.writeRunReport(summary);
+
+		const newAttention = this.settings.needsAttention.length - attentionBefore;
+		if (newAttention > 0) {
+			new Notice(`Auto-archive: ${newAttention} items need attention`);
+		}
+	}
+
+	/**
+	 * Lists what stops a rule from working, so it can't be saved broken.
+	 */
+	getRuleErrors(rule: AutoArchiveRule): string[] {
+		const errors: string[] = [];
+
+		const folderError = this.getFolderPathError(rule);
+		if (folderError) {
+			errors.push(folderError);
+		}
+
+		if (rule.mode !== "orphanedAttachments" && !this.hasConditions(rule.conditionGroup)) {
+			errors.push("Add at least one condition");
+		} else if (
+			rule.mode === "orphanedAttachments" &&
+			(rule.attachmentExtensions ?? []).length === 0
+		) {
+			errors.push("Enter at least one attachment extension");
+		}
+
+		const addConditionErrors = (group: AutoArchiveConditionGroup, prefix: string) => {
+			group.conditions.forEach((node, index) => {
+				if (node.type === "group") {
+					addConditionErrors(node, `${prefix}Group ${index + 1}, `);
+				} else {
+					const error = this.getConditionError(node);
+					if (error) {
+						errors.push(`${prefix}Condition ${index + 1}: ${error}`);
+					}
+				}
+			});
+		};
+		addConditionErrors(rule.conditionGroup, "");
+
+		for (const pattern of rule.exclusions?.patterns ?? []) {
+			const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+			const error = regexMatch && this.getRegexError(regexMatch[1], regexMatch[2]);
+			if (error) {
+				errors.push(`Exclusion ${pattern}: ${error}`);
+			}
+		}
+
+		return errors;
+	}
+
+	getFolderPathError(rule: AutoArchiveRule): string | null {
+		if (rule.mode === "orphanedAttachments") {
+			return null;
+		}
+		if (!rule.folderPath.trim()) {
+			return "Enter a folder path";
+		}
+		return rule.useFolderRegex ? this.getRegexError(rule.folderPath) : null;
+	}
+
+	/**
+	 * Warns about folder paths that are valid but match nothing right now.
+	 */
+	getFolderPathWarning(rule: AutoArchiveRule): string | null {
+		if (rule.mode === "orphanedAttachments" || this.getFolderPathError(rule)) {
+			return null;
+		}
+
+		if (rule.useFolderRegex) {
+			const regex = new RegExp(rule.folderPath);
+			return this.app.vault.getAllFolders().some((folder) => regex.test(folder.path))
+				? null
+				: "No folders match this pattern yet";
+		}
+
+		return this.app.vault.getFolderByPath(normalizePath(rule.folderPath))
+			? null
+			: "This folder doesn't exist yet";
+	}
+
+	/**
+	 * Returns why a condition can't be evaluated, or null when it's valid.
+	 */
+	getConditionError(condition: AutoArchiveCondition): string | null {
+		const value = condition.value.trim();
+		const isNumber = /^\d+(\.\d+)?$/.test(value);
+
+		switch (condition.type) {
+			case "fileAge":
+				if (condition.ageSource === "frontmatter" && !condition.frontmatterKey) {
+					return "Enter the date property";
+				}
+				return isNumber ? null : "Enter the age as a number";
+			case "fileSize":
+				return isNumber ? null : "Enter the size as a number";
+			case "wordCount":
+				return /^\d+$/.test(value) ? null : "Enter the number of words";
+			case "regexPattern":
+			case "contentRegex":
+				return value ? this.getRegexError(condition.value) : "Enter a regular expression";
+			case "tag":
+				return this.parseTagList(value).length > 0 ? null : "Enter at least one tag";
+			case "extension":
+				return value.replace(/[,.\s]/g, "") ? null : "Enter at least one extension";
+			case "frontmatter": {
+				if (!condition.frontmatterKey) {
+					return "Enter the property";
+				}
+				const operator = condition.frontmatterOperator || "equals";
+				if (operator === "matches") {
+					return this.getRegexError(condition.value);
+				}
+				if (operator === "before" || operator === "after") {
+					return this.parseConditionDate(condition.value) === null
+						? "Enter a date such as 2025-03-14, today or 30 days ago"
+						: null;
+				}
+				return null;
+			}
+			case "notLinked":
+			case "taskCompletion":
+				return null;
+			default: {
+				// Fails to compile when a condition type has no case above
+				const unknownType: never = condition.type;
+				return `Unknown condition type ${unknownType}`;
+			}
+		}
+	}
+
+	private getRegexError(pattern: string, flags?: string): string | null {
+		try {
+			new RegExp(pattern, flags);
+			return null;
+		} catch (error) {
+			return `Invalid regular expression: ${error instanceof Error ? error.message : error}`;
+		}
+	}
+
+	getRuleName(rule: AutoArchiveRule): string {
+		if (rule.mode === "orphanedAttachments") {
+			return "Orphaned attachments";
+		}
+		return rule.folderPath || "(not set)";
+	}
+
+	/**
+	 * Finds the attachments with the rule's extensions that no active note
+	 * or canvas links to or embeds.
+	 */
+	async getOrphanedAttachments(rule: AutoArchiveRule): Promise<TFile[]> {
+		const extensions = (rule.attachmentExtensions ?? DEFAULT_ATTACHMENT_EXTENSIONS).map(
+			(extension) => extension.toLowerCase()
+		);
+
+		const linked = new Set<string>();
+		for (const [sourcePath, links] of Object.entries(this.app.metadataCache.resolvedLinks)) {
+			if (this.getContainingArchiveFolder(sourcePath) === null) {
+				Object.keys(links).forEach((path) => linked.add(path));
+			}
+		}
+
+		// Canvas files aren't in the link cache, so read their file nodes
+		for (const canvas of this.app.vault.getFiles()) {
+			if (canvas.extension !== "canvas" || this.isFileArchived(canvas)) {
+				continue;
+			}
+			try {
+				const data = JSON.parse(await this.app.vault.cachedRead(canvas));
+				for (const node of data.nodes ?? []) {
+					if (typeof node.file === "string") {
+						linked.add(node.file);
+					}
+				}
+			} catch (error) {
+				this.logRuleError(`Unable to read canvas ${canvas.path}`, error);
+			}
+		}
+
+		return this.app.vault
+			.getFiles()
+			.filter(
+				(file) =>
+					extensions.includes(file.extension.toLowerCase()) &&
+					!linked.has(file.path) &&
+					!this.isFileArchived(file)
+			);
+	}
+
+	/**
+	 * Whether the file is inside a folder the rule applies to.
+	 */
+	isFileInRuleFolder(file: TFile, rule: AutoArchiveRule): boolean {
+		// Orphaned attachment rules only run on their schedule or at startup
+		if (rule.mode === "orphanedAttachments") {
+			return false;
+		}
+
+		const folderPaths: string[] = [];
+		for (let folder = file.parent; folder; folder = folder.parent) {
+			folderPaths.push(folder.path);
+			if (!rule.applyRecursively) {
+				break;
+			}
+		}
+
+		if (rule.useFolderRegex) {
+			try {
+				const regex = new RegExp(rule.folderPath);
+				return folderPaths.some((path) => regex.test(path));
+			} catch (error) {
+				this.logRuleError(`Invalid regex pattern in auto-archive rule: ${rule.folderPath}`, error);
+				return false;
+			}
+		}
+
+		const rulePath = normalizePath(rule.folderPath);
+		return folderPaths.includes(rulePath);
+	}
+
+	/**
+	 * Runs the given rules over their folders. Runs started by the startup
+	 * trigger pass updateSchedule false so each rule's schedule stays put.
+	 */
+	async processAutoArchiveRules(
+		rules = this.settings.autoArchiveRules.filter((rule) => rule.enabled),
+		updateSchedule = true
+	): Promise<AutoArchiveRunSummary | null> {
+		// Runs never overlap, so report nothing while one is in progress
+		if (this.autoArchiveRunning) {
+			return null;
+		}
+		this.autoArchiveRunning = true;
+
+		let summary: AutoArchiveRunSummary;
+		const attentionBefore = this.settings.needsAttention.length;
+
+		try {
+			this.ruleErrors = new Set();
+			const matches = await this.previewAutoArchiveRules(rules);
+			summary = await this.archiveMatchedFiles(matches, true);
+			summary.errors = [...this.ruleErrors];
+		} finally {
+			this.ruleErrors = null;
+			this.autoArchiveRunning = false;
+		}
+
+		const now = Date.now();
+		if (updateSchedule) {
+			for (const rule of rules) {
+				rule.lastRun = now;
+			}
+		}
+		this.recordRuleResults(summary, now);
+		this.settings.lastAutoArchiveRun = now;
+		await this.saveSettings();
+
+		this.logRunSummary(summary);
+		await this.writeRunReport(summary);
+
+		const newAttention = this.settings.needsAttention.length - attentionBefore;
+		if (newAttention > 0) {
+			new Notice(`Auto-archive: ${newAttention} items need attention`);
+		}
+
+		return summary;
+	}
+
+	/**
+	 * Keeps the outcome of a run on each rule it evaluated, for the rule
+	 * health shown in the settings.
+	 */
+	private recordRuleResults(summary: AutoArchiveRunSummary, now = Date.now()) {
+		for (const match of summary.matches) {
+			match.rule.lastResult = {
+				timestamp: now,
+				matched: match.files.length,
+				archived: match.moved.length,
+				skipped: match.skipped.length,
+				error: match.errors[0],
+			};
+		}
+	}
+
+	getRunSummaryText(summary: AutoArchiveRunSummary): string {
+		let text = `${summary.archived} files archived`;
+		if (summary.skipped.length > 0) {
+			text += `, ${summary.skipped.length} files skipped`;
+		}
+		if (summary.errors.length > 0) {
+			text += `, ${summary.errors.length} errors`;
+		}
+		return text;
+	}
+
+	/**
+	 * Logs an error found while evaluating rules, and keeps it for the run
+	 * report when a run is in progress.
+	 */
+	logRuleError(message: string, error: unknown) {
+		console.error(message, error);
+		this.ruleErrors?.add(error instanceof Error ? `${message}: ${error.message}` : message);
+	}
+
+	private logRunSummary(summary: AutoArchiveRunSummary) {
+		if (summary.archived > 0 || summary.skipped.length > 0 || summary.errors.length > 0) {
+			console.log(`Auto-archive: ${this.getRunSummaryText(summary)}`);
+		}
+
+		for (const skip of summary.skipped) {
+			console.log(`Auto-archive: skipped ${skip.file.path}, ${skip.reason}`);
+		}
+	}
+
+	async previewAutoArchiveRules(
+		rules = this.settings.autoArchiveRules.filter((rule) => rule.enabled)
+	): Promise<AutoArchiveRuleMatch[]> {
+		const matches: AutoArchiveRuleMatch[] = [];
+		const matchedPaths = new Set<string>();
+
+		for (const rule of rules) {
+			// A file matched by an earlier rule is only listed once
+			const skipped: AutoArchiveSkip[] = [];
+			const errors: string[] = [];
+			const files = (
+				await this.collectRuleErrors(errors, () =>
+					this.findAutoArchiveMatches(rule, skipped)
+				)
+			).filter((file) => !matchedPaths.has(file.path));
+
+			for (const file of files) {
+				matchedPaths.add(file.path);
+			}
+
+			matches.push({ rule, files, skipped, moved: [], errors });
+		}
+
+		return matches;
+	}
+
+	/**
+	 * Collects the errors logged while evaluating one rule separately,
+	 * and still adds them to the run they belong to.
+	 */
+	private async collectRuleErrors<T>(
+		errors: string[],
+		evaluate: () => Promise<T>
+	): Promise<T> {
+		const runErrors = this.ruleErrors;
+		this.ruleErrors = new Set();
+		try {
+			return await evaluate();
+		} finally {
+			for (const error of this.ruleErrors) {
+				if (!errors.includes(error)) {
+					errors.push(error);
+				}
+				runErrors?.add(error);
+			}
+			this.ruleErrors = runErrors;
+		}
+	}
+
+	async findAutoArchiveMatches(
+		rule: AutoArchiveRule,
+		skipped?: AutoArchiveSkip[]
+	): Promise<TFile[]> {
+		if (rule.mode === "orphanedAttachments") {
+			const matches: TFile[] = [];
+			for (const file of await this.getOrphanedAttachments(rule)) {
+				if (await this.evaluateAutoArchiveRule(file, rule, skipped)) {
+					matches.push(file);
+				}
+			}
+			return matches;
+		}
+
+		let foldersToProcess: TFolder[] = [];
+
+		if (rule.useFolderRegex) {
+			// Use regex to match folder paths
+			try {
+				const regex = new RegExp(rule.folderPath);
+				const allFolders = this.app.vault.getAllFolders();
+				foldersToProcess = allFolders.filter((folder) =>
+					regex.test(folder.path)
+				);
+			} catch (error) {
+				this.logRuleError(`Invalid regex pattern in auto-archive rule: ${rule.folderPath}`, error);
+				return [];
+			}
+		} else {
+			// Use exact folder path
+			const folder = this.app.vault.getFolderByPath(
+				normalizePath(rule.folderPath)
+			);
+
+			if (!folder) {
+				return [];
+			}
+
+			foldersToProcess = [folder];
+		}
+
+		const filesToArchive: TFile[] = [];
+
+		for (const folder of foldersToProcess) {
+			const files = this.getFilesFromFolder(
+				folder,
+				rule.applyRecursively || false
+			);
+
+			for (const file of files) {
+				if (
+					!filesToArchive.includes(file) &&
+					(await this.evaluateAutoArchiveRule(file, rule, skipped))
+				) {
+					filesToArchive.push(file);
+				}
+			}
+		}
+
+		return filesToArchive;
+	}
+
+	async archiveMatchedFiles(
+		matches: AutoArchiveRuleMatch[],
+		unattended: boolean
+	): Promise<AutoArchiveRunSummary> {
+		let archived = 0;
+
+		// One auto-archive run is recorded as a single history batch
+		const batchId = crypto.randomUUID();
+		const backlinks = await this.handleBacklinks(
+			matches.flatMap((match) => match.files),
+			unattended
+		);
+
+		// Cancelling the backlink report leaves every matched file in place
+		if (!backlinks) {
+			for (const match of matches) {
+				match.skipped.push(
+					...match.files.map((file) => ({ file, reason: "Archive operation cancelled" }))
+				);
+			}
+			return {
+				matches,
+				archived: 0,
+				skipped: matches.flatMap((match) => match.skipped),
+				errors: [],
+			};
+		}
+
+		for (const match of matches) {
+			const context: ArchiveOperationContext = {
+				trigger: "rule",
+				ruleId: match.rule.id,
+				batchId,
+				archiveId: match.rule.archiveId,
+			};
+
+			if (unattended) {
+				context.conflictPolicy =
+					match.rule.conflictPolicy ?? this.settings.autoArchiveConflictPolicy;
+			}
+
+			for (const file of match.files) {
+				const from = file.path;
+				const result = await this.archiveFile(file, context);
+				if (result.success) {
+					archived++;
+					match.moved.push({ from, to: file.path });
+				} else {
+					match.skipped.push({ file, reason: result.message });
+				}
+			}
+		}
+
+		await this.rewriteBacklinks(
+			backlinks,
+			matches.flatMap((match) => match.moved)
+		);
+
+		return {
+			matches,
+			archived,
+			skipped: matches.flatMap((match) => match.skipped),
+			errors: [],
+		};
+	}
+
+	private getRunReportPath(): string {
+		return normalizePath(
+			this.settings.runReport === "daily"
+				? `${this.settings.runReportFolder}/${moment().format("YYYY-MM-DD")}.md`
+				: this.settings.runReportPath
+		);
+	}
+
+	/**
+	 * Whether a file is a run report, which rules never archive so that
+	 * writing a report can't trigger a rule.
+	 */
+	private isRunReport(file: TFile): boolean {
+		if (this.settings.runReport === "off") {
+			return false;
+		}
+		if (this.settings.runReport === "daily") {
+			return (
+				file.parent?.path === normalizePath(this.settings.runReportFolder) &&
+				/^\d{4}-\d{2}-\d{2}\.md$/.test(file.name)
+			);
+		}
+		return file.path === normalizePath(this.settings.runReportPath);
+	}
+
+	/**
+	 * Appends a Markdown report of an auto-archive run to the configured
+	 * report note. Runs that did nothing aren't reported.
+	 */
+	private async writeRunReport(summary: AutoArchiveRunSummary): Promise<void> {
+		const hasMatches = summary.matches.some(
+			(match) => match.files.length > 0 || match.skipped.length > 0
+		);
+		if (this.settings.runReport === "off" || (!hasMatches && summary.errors.length === 0)) {
+			return;
+		}
+
+		const reportPath = this.getRunReportPath();
+
+		const lines = [`## Auto-archive run ${moment().format("YYYY-MM-DD HH:mm")}`, ""];
+		lines.push(this.getRunSummaryText(summary), "");
+
+		for (const match of summary.matches) {
+			if (match.files.length === 0 && match.skipped.length === 0) {
+				continue;
+			}
+
+			lines.push(`### Rule: ${this.getRuleName(match.rule)}`, "");
+			lines.push(`Matched ${match.files.length} files`, "");
+
+			// Moved files already carry their archive path
+			for (const file of match.files) {
+				const move = match.moved.find((m) => m.to === file.path);
+				const skip = match.skipped.find((s) => s.file === file);
+				if (move) {
+					const link = this.app.fileManager.generateMarkdownLink(file, reportPath);
+					lines.push(`- ${move.from}: moved to ${link}`);
+				} else {
+					lines.push(`- ${file.path}: skipped, ${skip?.reason ?? "not archived"}`);
+				}
+			}
+
+			// Files that matched but are protected from archiving
+			for (const skip of match.skipped) {
+				if (!match.files.includes(skip.file)) {
+					lines.push(`- ${skip.file.path}: skipped, ${skip.reason}`);
+				}
+			}
+			lines.push("");
+		}
+
+		if (summary.errors.length > 0) {
+			lines.push("### Errors", "");
+			for (const error of summary.errors) {
+				lines.push(`- ${error}`);
+			}
+			lines.push("");
+		}
+
+		const report = lines.join("\n");
+		try {
+			const existing = this.app.vault.getFileByPath(reportPath);
+			if (existing) {
+				await this.app.vault.process(existing, (data) =>
+					data.length === 0 || data.endsWith("\n\n")
+						? `${data}${report}`
+						: `${data.replace(/\n*$/, "")}\n\n${report}`
+				);
+			} else {
+				await this.ensureParentFolder(reportPath);
+				await this.app.vault.create(reportPath, report);
+			}
+		} catch (error) {
+			console.error(`Unable to write auto-archive report to ${reportPath}`, error);
+		}
+	}
+
+	getFilesFromFolder(
+		folder: TFolder,
+		recursive: boolean
+	): TFile[] {
+		const files: TFile[] = [];
+
+		for (const child of folder.children) {
+			if (child instanceof TFile) {
+				files.push(child);
+			} else if (recursive && child instanceof TFolder) {
+				files.push(...this.getFilesFromFolder(child, recursive));
+			}
+		}
+
+		return files;
+	}
+
+	private async evaluateAutoArchiveRule(
+		file: TFile,
+		rule: AutoArchiveRule,
+		skipped?: AutoArchiveSkip[]
+	): Promise<boolean> {
+		// Skip if already archived, and never archive the run report
+		if (this.isFileArchived(file) || this.isRunReport(file)) {
+			return false;
+		}
+
+		// No conditions means no match, except that every orphaned
+		// attachment matches a rule without further conditions
+		if (!this.hasConditions(rule.conditionGroup)) {
+			if (rule.mode !== "orphanedAttachments") {
+				return false;
+			}
+		} else if (!(await this.evaluateConditionNode(file, rule.conditionGroup))) {
+			return false;
+		}
+
+		// Protected files are never archived, but are reported when they match
+		const reason = this.getProtectionReason(file, rule);
+		if (reason !== null) {
+			skipped?.push({ file, reason });
+			return false;
+		}
+
+		return true;
+	}
+
+	private hasConditions(node: AutoArchiveConditionNode): boolean {
+		return node.type !== "group" || node.conditions.some((child) => this.hasConditions(child));
+	}
+
+	private async evaluateConditionNode(
+		file: TAbstractFile,
+		node: AutoArchiveConditionNode
+	): Promise<boolean> {
+		let result: boolean;
+
+		if (node.type === "group") {
+			// Empty groups are left out rather than matching everything or nothing
+			const children = node.conditions.filter((child) => this.hasConditions(child));
+
+			if (node.logicOperator === "OR") {
+				// OR logic: at least one condition must be met
+				result = false;
+				for (const child of children) {
+					if (await this.evaluateConditionNode(file, child)) {
+						result = true;
+						break;
+					}
+				}
+			} else {
+				// AND logic: all conditions must be met
+				result = true;
+				for (const child of children) {
+					if (!(await this.evaluateConditionNode(file, child))) {
+						result = false;
+						break;
+					}
+				}
+			}
+		} else {
+			result = await this.evaluateCondition(file, node);
+		}
+
+		return node.negate ? !result : result;
+	}
+
+	private async evaluateCondition(
+		file: TAbstractFile,
+		condition: AutoArchiveCondition
+	): Promise<boolean> {
+		if (condition.type === "fileAge") {
+			const age = parseFloat(condition.value);
+			if (isNaN(age)) {
+				return false;
+			}
+
+			const date = await this.getFileAgeDate(file, condition);
+			if (date === null) {
+				return false;
+			}
+
+			const olderThan = moment().subtract(age, condition.ageUnit || "days");
+			return date <= olderThan.valueOf();
+		} else if (condition.type === "regexPattern") {
+			try {
+				const regex = new RegExp(condition.value);
+				return regex.test(file.name);
+			} catch (error) {
+				this.logRuleError(`Invalid regex pattern in auto-archive rule: ${condition.value}`, error);
+				return false;
+			}
+		} else if (condition.type === "frontmatter") {
+			return this.evaluateFrontmatterCondition(file, condition);
+		} else if (condition.type === "tag") {
+			return this.evaluateTagCondition(file, condition);
+		} else if (condition.type === "notLinked") {
+			return this.getActiveBacklinks([file]).size === 0;
+		} else if (condition.type === "extension") {
+			const extensions = condition.value
+				.split(",")
+				.map((extension) => extension.trim().replace(/^\./, "").toLowerCase())
+				.filter((extension) => extension.length > 0);
+			return file instanceof TFile && extensions.includes(file.extension.toLowerCase());
+		} else if (condition.type === "fileSize") {
+			const size = parseFloat(condition.value);
+			if (!(file instanceof TFile) || isNaN(size)) {
+				return false;
+			}
+			const bytes = size * FILE_SIZE_UNITS[condition.sizeUnit || "MB"];
+			return this.compareNumber(file.stat.size, bytes, condition.comparison);
+		} else if (condition.type === "wordCount") {
+			const count = parseInt(condition.value);
+			if (!(file instanceof TFile) || file.extension !== "md" || isNaN(count)) {
+				return false;
+			}
+			const words = (await this.getNoteBody(file)).match(/\S+/g)?.length ?? 0;
+			return this.compareNumber(words, count, condition.comparison);
+		} else if (condition.type === "contentRegex") {
+			if (!(file instanceof TFile) || file.extension !== "md") {
+				return false;
+			}
+			try {
+				const regex = new RegExp(condition.value, "m");
+				return regex.test(await this.getNoteBody(file));
+			} catch (error) {
+				this.logRuleError(`Invalid regex pattern in auto-archive rule: ${condition.value}`, error);
+				return false;
+			}
+		} else if (condition.type === "taskCompletion") {
+			return this.evaluateTaskCondition(file, condition);
+		}
+
+		return false;
+	}
+
+	private compareNumber(
+		actual: number,
+		expected: number,
+		comparison: NumberComparison = "greaterThan"
+	): boolean {
+		return comparison === "greaterThan" ? actual > expected : actual < expected;
+	}
+
+	/**
+	 * Reads a note without its frontmatter.
+	 */
+	private async getNoteBody(file: TFile): Promise<string> {
+		const content = await this.app.vault.cachedRead(file);
+		const position = this.app.metadataCache.getFileCache(file)?.frontmatterPosition;
+		return position ? content.substring(position.end.offset) : content;
+	}
+
+	private evaluateTaskCondition(
+		file: TAbstractFile,
+		condition: AutoArchiveCondition
+	): boolean {
+		if (!(file instanceof TFile)) {
+			return false;
+		}
+
+		// List items are tasks when they have a checkbox, where a space means open
+		const listItems = this.app.metadataCache.getFileCache(file)?.listItems ?? [];
+		const tasks = listItems.filter((item) => item.task !== undefined);
+		const openTasks = tasks.filter((item) => item.task === " ");
+
+		switch (condition.taskState || "allDone") {
+			case "allDone":
+				return tasks.length > 0 && openTasks.length === 0;
+			case "someOpen":
+				return openTasks.length > 0;
+			case "noTasks":
+				return tasks.length === 0;
+		}
+	}
+
+	/**
+	 * Returns the date a file age condition measures from, or null when
+	 * the file has no such date.
+	 */
+	private async getFileAgeDate(
+		file: TAbstractFile,
+		condition: AutoArchiveCondition
+	): Promise<number | null> {
+		const source = condition.ageSource || "mtime";
+
+		if (source === "mtime" || source === "ctime") {
+			const stats = await this.app.vault.adapter.stat(file.path);
+			if (!stats) {
+				return null;
+			}
+			return source === "mtime" ? stats.mtime : stats.ctime;
+		} else if (source === "lastOpened") {
+			return this.settings.lastOpened[file.path] ?? null;
+		} else if (source === "filename") {
+			const name = file instanceof TFile ? file.basename : file.name;
+			const match = name.match(/\d{4}-?\d{2}-?\d{2}/);
+			if (!match) {
+				return null;
+			}
+			const date = moment(match[0], ["YYYY-MM-DD", "YYYYMMDD"], true);
+			return date.isValid() ? date.valueOf() : null;
+		}
+
+		if (!(file instanceof TFile) || !condition.frontmatterKey) {
+			return null;
+		}
+
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const rawValue = frontmatter?.[condition.frontmatterKey];
+		const value: unknown = Array.isArray(rawValue) ? rawValue[0] : rawValue;
+		if (value === undefined || value === null) {
+			return null;
+		}
+
+		const date = moment(String(value), moment.ISO_8601, true);
+		return date.isValid() ? date.valueOf() : null;
+	}
+
+	private evaluateTagCondition(
+		file: TAbstractFile,
+		condition: AutoArchiveCondition
+	): boolean {
+		const wantedTags = this.parseTagList(condition.value);
+		if (!(file instanceof TFile) || wantedTags.length === 0) {
+			return false;
+		}
+
+		// getAllTags covers both inline and frontmatter tags
+		const cache = this.app.metadataCache.getFileCache(file);
+		const fileTags = (cache ? getAllTags(cache) ?? [] : []).map((tag) =>
+			tag.toLowerCase()
+		);
+
+		// A parent tag also matches its nested tags (#project matches #project/closed)
+		const hasTag = wantedTags.some((wanted) =>
+			fileTags.some(
+				(tag) => tag === wanted || tag.startsWith(`${wanted}/`)
+			)
+		);
+
+		return condition.tagOperator === "missing" ? !hasTag : hasTag;
+	}
+
+	private parseTagList(value: string): string[] {
+		return value
+			.split(",")
+			.map((tag) => tag.trim().toLowerCase())
+			.filter((tag) => tag.length > 0)
+			.map((tag) => (tag.startsWith("#") ? tag : `#${tag}`));
+	}
+
+	private evaluateFrontmatterCondition(
+		file: TAbstractFile,
+		condition: AutoArchiveCondition
+	): boolean {
+		if (!(file instanceof TFile) || !condition.frontmatterKey) {
+			return false;
+		}
+
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter || !(condition.frontmatterKey in frontmatter)) {
+			return false;
+		}
+
+		const operator = condition.frontmatterOperator || "equals";
+		if (operator === "exists") {
+			return true;
+		}
+
+		// List properties match when any of their items match
+		const rawValue = frontmatter[condition.frontmatterKey];
+		const values: unknown[] = Array.isArray(rawValue) ? rawValue : [rawValue];
+
+		if (operator === "equals") {
+			return values.some((value) => String(value) === condition.value);
+		} else if (operator === "contains") {
+			return values.some((value) => String(value).includes(condition.value));
+		} else if (operator === "matches") {
+			try {
+				const regex = new RegExp(condition.value);
+				return values.some((value) => regex.test(String(value)));
+			} catch (error) {
+				this.logRuleError(`Invalid regex pattern in auto-archive rule: ${condition.value}`, error);
+				return false;
+			}
+		} else if (operator === "before" || operator === "after") {
+			const compareTo = this.parseConditionDate(condition.value);
+			if (compareTo === null) {
+				return false;
+			}
+
+			return values.some((value) => {
+				const date = moment(String(value), moment.ISO_8601, true);
+				if (!date.isValid()) {
+					return false;
+				}
+				return operator === "before"
+					? date.valueOf() < compareTo
+					: date.valueOf() > compareTo;
+			});
+		}
+
+		return false;
+	}
+
+	/**
+	 * Parses an absolute date (YYYY-MM-DD) or a relative date such as
+	 * "today", "30 days ago" or "in 7 days" into a timestamp.
+	 */
+	private parseConditionDate(value: string): number | null {
+		const trimmed = value.trim().toLowerCase();
+
+		if (trimmed === "today") {
+			return moment().startOf("day").valueOf();
+		}
+
+		const ago = /^(\d+)\s*days?\s+ago$/.exec(trimmed);
+		if (ago) {
+			return moment().subtract(parseInt(ago[1]), "days").valueOf();
+		}
+
+		const ahead = /^in\s+(\d+)\s*days?$/.exec(trimmed);
+		if (ahead) {
+			return moment().add(parseInt(ahead[1]), "days").valueOf();
+		}
+
+		const date = moment(value.trim(), moment.ISO_8601, true);
+		return date.isValid() ? date.valueOf() : null;
+	}
+
+	private async loadSettings() {
+		// Start from a deep copy so edits never mutate DEFAULT_SETTINGS
+		const defaults: SimpleArchiverSettings = structuredClone(DEFAULT_SETTINGS);
+		this.settings = Object.assign(
+			{},
+			defaults,
+			await this.loadData()
+		);
+
+		// Migrate the fixed frequency to an interval schedule
+		const legacySettings = this.settings as SimpleArchiverSettings & {
+			autoArchiveFrequency?: number;
+		};
+		let needsSave = false;
+		if (legacySettings.autoArchiveFrequency !== undefined) {
+			this.settings.autoArchiveSchedule = {
+				...DEFAULT_SETTINGS.autoArchiveSchedule,
+				frequency: legacySettings.autoArchiveFrequency,
+			};
+			delete legacySettings.autoArchiveFrequency;
+			needsSave = true;
+		}
+
+		// Fill in nested defaults missing from older saved settings
+		this.settings.frontmatterKeys = {
+			...defaults.frontmatterKeys,
+			...this.settings.frontmatterKeys,
+		};
+		this.settings.autoArchiveSchedule = {
+			...defaults.autoArchiveSchedule,
+			...this.settings.autoArchiveSchedule,
+		};
+		this.settings.exclusions = {
+			...defaults.exclusions,
+			...this.settings.exclusions,
+		};
+		
+		// Ensure backward compatibility for rules saved by older versions
+		if (this.settings.autoArchiveRules) {
+			for (const rule of this.settings.autoArchiveRules) {
+				if (this.migrateRule(rule)) {
+					needsSave = true;
+				}
+			}
+		}
+		
+		// Persist the migration
+		if (needsSave) {
+			await this.saveSettings();
+		}
+	}
+
+	/**
+	 * Brings a rule saved or exported by an older version up to date.
+	 * Returns whether anything changed.
+	 */
+	migrateRule(rule: AutoArchiveRule): boolean {
+		let changed = false;
+		const legacyRule = rule as AutoArchiveRule & {
+			conditions?: AutoArchiveCondition[];
+			logicOperator?: "AND" | "OR";
+		};
+
+		// Flat condition lists move into a condition group
+		if (!rule.conditionGroup) {
+			rule.conditionGroup = {
+				type: "group",
+				logicOperator: legacyRule.logicOperator || "AND",
+				conditions: legacyRule.conditions ?? [],
+			};
+			delete legacyRule.conditions;
+			delete legacyRule.logicOperator;
+			changed = true;
+		}
+
+		if (rule.useFolderRegex === undefined) {
+			rule.useFolderRegex = false;
+			changed = true;
+		}
+
+		if (rule.applyRecursively === undefined) {
+			rule.applyRecursively = false;
+			changed = true;
+		}
+
+		return changed;
+	}
+
+	exportRules(rules: AutoArchiveRule[], format: AutoArchiveRulesFormat): string {
+		const data: AutoArchiveRulesExport = {
+			plugin: this.manifest.id,
+			version: RULES_EXPORT_VERSION,
+			exportedAt: new Date().toISOString(),
+			rules: rules.map((rule) => {
+				// Run state belongs to the vault the rules ran in
+				const exported: AutoArchiveRule = JSON.parse(JSON.stringify(rule));
+				delete exported.lastRun;
+				delete exported.lastResult;
+				return exported;
+			}),
+		};
+
+		return format === "json" ? JSON.stringify(data, null, "\t") : stringifyYaml(data);
+	}
+
+	/**
+	 * Reads exported rules from JSON or YAML and brings them up to date.
+	 * Rules that fail validation are imported disabled.
+	 */
+	parseRulesImport(text: string): AutoArchiveRulesImport {
+		const result: AutoArchiveRulesImport = { rules: [], errors: [], warnings: [] };
+
+		let data: unknown;
+		try {
+			const trimmed = text.trim();
+			data =
+				trimmed.startsWith("{") || trimmed.startsWith("[")
+					? JSON.parse(trimmed)
+					: parseYaml(trimmed);
+		} catch (error) {
+			result.errors.push(
+				`Unable to read the rules: ${error instanceof Error ? error.message : error}`
+			);
+			return result;
+		}
+
+		// Early exports were a bare list of rules
+		const exported = data as Partial<AutoArchiveRulesExport> | null;
+		const rawRules: unknown = Array.isArray(data) ? data : exported?.rules;
+		const version = Array.isArray(data) ? 0 : exported?.version ?? 0;
+
+		if (version > RULES_EXPORT_VERSION) {
+			result.errors.push(
+				"These rules were exported by a newer version of Simple Archiver. Update the plugin to import them."
+			);
+			return result;
+		}
+
+		if (!Array.isArray(rawRules)) {
+			result.errors.push("No auto-archive rules found");
+			return result;
+		}
+
+		rawRules.forEach((raw: unknown, index) => {
+			if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+				result.errors.push(`Rule ${index + 1} isn't an auto-archive rule`);
+				return;
+			}
+
+			const rule = raw as AutoArchiveRule;
+			this.migrateRule(rule);
+			const error = this.getImportedRuleError(rule);
+			if (error) {
+				result.errors.push(`Rule ${index + 1}: ${error}`);
+				return;
+			}
+
+			rule.id = typeof rule.id === "string" && rule.id ? rule.id : crypto.randomUUID();
+			rule.folderPath = rule.folderPath ?? "";
+			rule.enabled = rule.enabled !== false;
+			delete rule.lastRun;
+			delete rule.lastResult;
+
+			const ruleErrors = this.getRuleErrors(rule);
+			if (ruleErrors.length > 0) {
+				rule.enabled = false;
+				result.warnings.push(
+					`${this.getRuleName(rule)} will be imported disabled: ${ruleErrors.join("; ")}`
+				);
+			}
+
+			result.rules.push(rule);
+		});
+
+		return result;
+	}
+
+	/**
+	 * Checks the shape of an imported rule, so that a rule this version
+	 * can't evaluate is never saved. Returns null when it's well formed.
+	 */
+	private getImportedRuleError(rule: AutoArchiveRule): string | null {
+		const isStringList = (value: unknown) =>
+			Array.isArray(value) && value.every((item) => typeof item === "string");
+
+		if (rule.mode !== undefined && rule.mode !== "folder" && rule.mode !== "orphanedAttachments") {
+			return `unknown rule type ${rule.mode}`;
+		}
+		if (rule.folderPath !== undefined && typeof rule.folderPath !== "string") {
+			return "the folder path isn't text";
+		}
+		if (rule.mode !== "orphanedAttachments" && rule.folderPath === undefined) {
+			return "no folder path";
+		}
+		if (rule.attachmentExtensions !== undefined && !isStringList(rule.attachmentExtensions)) {
+			return "attachment extensions must be a list of text";
+		}
+		if (
+			rule.conflictPolicy !== undefined &&
+			!AUTO_ARCHIVE_CONFLICT_POLICIES.includes(rule.conflictPolicy)
+		) {
+			return `unknown conflict policy ${rule.conflictPolicy}`;
+		}
+		if (rule.archiveId !== undefined && typeof rule.archiveId !== "string") {
+			return "the target archive isn't text";
+		}
+		if (rule.schedule !== undefined) {
+			const schedule = rule.schedule as Partial<AutoArchiveSchedule> | null;
+			const isSchedule =
+				typeof schedule === "object" &&
+				schedule !== null &&
+				["interval", "daily", "weekly", "monthly"].includes(schedule.type ?? "") &&
+				typeof schedule.frequency === "number" &&
+				typeof schedule.time === "string" &&
+				typeof schedule.weekday === "number" &&
+				typeof schedule.dayOfMonth === "number";
+			if (!isSchedule) {
+				return "malformed schedule";
+			}
+		}
+		if (rule.triggers !== undefined) {
+			if (!Array.isArray(rule.triggers)) {
+				return "triggers must be a list";
+			}
+			const knownTriggers = Object.keys(EVENT_TRIGGER_LABELS);
+			const unknownTrigger = rule.triggers.find((trigger) => !knownTriggers.includes(trigger));
+			if (unknownTrigger !== undefined) {
+				return `unknown trigger ${unknownTrigger}`;
+			}
+		}
+		if (rule.exclusions !== undefined) {
+			const exclusions = rule.exclusions as Partial<ArchiveExclusions> | null;
+			if (typeof exclusions !== "object" || exclusions === null) {
+				return "malformed exclusions";
+			}
+			for (const key of ["patterns", "files", "tags"] as const) {
+				if (exclusions[key] === undefined) {
+					exclusions[key] = [];
+				} else if (!isStringList(exclusions[key])) {
+					return `exclusion ${key} must be a list of text`;
+				}
+			}
+		}
+
+		return this.getImportedConditionError(rule.conditionGroup);
+	}
+
+	private getImportedConditionError(node: unknown): string | null {
+		if (typeof node !== "object" || node === null) {
+			return "malformed conditions";
+		}
+
+		const candidate = node as AutoArchiveConditionNode;
+		if (candidate.negate !== undefined && typeof candidate.negate !== "boolean") {
+			return "malformed conditions";
+		}
+
+		if (candidate.type === "group") {
+			if (candidate.logicOperator !== "AND" && candidate.logicOperator !== "OR") {
+				return `unknown logic operator ${candidate.logicOperator}`;
+			}
+			if (!Array.isArray(candidate.conditions)) {
+				return "malformed conditions";
+			}
+			for (const child of candidate.conditions) {
+				const error = this.getImportedConditionError(child);
+				if (error) {
+					return error;
+				}
+			}
+			return null;
+		}
+
+		if (!AUTO_ARCHIVE_CONDITION_TYPES.includes(candidate.type)) {
+			return `unknown condition type ${candidate.type}`;
+		}
+		return typeof candidate.value === "string" ? null : "malformed conditions";
+	}
+
+	/**
+	 * Adds imported rules to the existing ones. Merging replaces rules with
+	 * the same id, or failing that the same folder, and adds the rest.
+	 */
+	async importRules(
+		rules: AutoArchiveRule[],
+		mode: "merge" | "replace"
+	): Promise<{ added: number; updated: number }> {
+		if (mode === "replace") {
+			this.settings.autoArchiveRules = rules;
+			await this.saveSettings();
+			return { added: rules.length, updated: 0 };
+		}
+
+		let added = 0;
+		let updated = 0;
+		const existingRules = this.settings.autoArchiveRules;
+
+		for (const rule of rules) {
+			let index = existingRules.findIndex((existing) => existing.id === rule.id);
+			if (index === -1) {
+				index = existingRules.findIndex(
+					(existing) =>
+						(existing.mode ?? "folder") === (rule.mode ?? "folder") &&
+						existing.folderPath === rule.folderPath &&
+						existing.useFolderRegex === rule.useFolderRegex
+				);
+			}
+
+			if (index === -1) {
+				existingRules.push(rule);
+				added++;
+			} else {
+				existingRules[index] = { ...rule, id: existingRules[index].id };
+				updated++;
+			}
+		}
+
+		await this.saveSettings();
+		return { added, updated };
+	}
+
+	async saveSettings() {
 		await this.saveData(this.settings);
 	}
 }
 
-class SimpleArchiverPromptModal extends Modal {
+/**
+ * Renders the controls for an auto-archive schedule. Changing the schedule
+ * type calls refresh so only the relevant controls are shown.
+ */
+function displayScheduleSetting(
+	containerEl: HTMLElement,
+	name: string,
+	desc: string,
+	schedule: AutoArchiveSchedule,
+	onChange: () => Promise<void> | void,
+	refresh: () => void
+): void {
+	const setting = new Setting(containerEl)
+		.setName(name)
+		.setDesc(desc)
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOption("interval", "Every…")
+				.addOption("daily", "Daily")
+				.addOption("weekly", "Weekly")
+				.addOption("monthly", "Monthly")
+				.setValue(schedule.type)
+				.onChange(async (value) => {
+					schedule.type = value as AutoArchiveSchedule["type"];
+					await onChange();
+					refresh();
+				})
+		);
+
+	if (schedule.type === "interval") {
+		setting.addDropdown((dropdown) =>
+			dropdown
+				.addOption("5", "5 minutes")
+				.addOption("15", "15 minutes")
+				.addOption("30", "30 minutes")
+				.addOption("60", "60 minutes")
+				.addOption("360", "6 hours")
+				.addOption("720", "12 hours")
+				.addOption("1440", "24 hours")
+				.addOption("2880", "48 hours")
+				.setValue(schedule.frequency.toString())
+				.onChange(async (value) => {
+					schedule.frequency = parseInt(value);
+					await onChange();
+				})
+		);
+		return;
+	}
+
+	if (schedule.type === "weekly") {
+		setting.addDropdown((dropdown) => {
+			["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"].forEach(
+				(day, index) => dropdown.addOption(index.toString(), day)
+			);
+			dropdown.setValue(schedule.weekday.toString()).onChange(async (value) => {
+				schedule.weekday = parseInt(value);
+				await onChange();
+			});
+		});
+	} else if (schedule.type === "monthly") {
+		setting.addDropdown((dropdown) => {
+			for (let day = 1; day <= 31; day++) {
+				dropdown.addOption(day.toString(), `Day ${day}`);
+			}
+			dropdown.setValue(schedule.dayOfMonth.toString()).onChange(async (value) => {
+				schedule.dayOfMonth = parseInt(value);
+				await onChange();
+			});
+		});
+	}
+
+	setting.addText((text) =>
+		text
+			.setPlaceholder("HH:mm")
+			.setValue(schedule.time)
+			.onChange(async (value) => {
+				if (/^([01]\d|2[0-3]):[0-5]\d$/.test(value.trim())) {
+					schedule.time = value.trim();
+					await onChange();
+				}
+			})
+	);
+}
+
+/**
+ * Matches a path against a glob, where * stays within a folder and **
+ * spans folders, or against a regular expression written as /pattern/.
+ */
+function matchesPathPattern(
+	path: string,
+	pattern: string,
+	onError: (message: string, error: unknown) => void
+): boolean {
+	const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+	if (regexMatch) {
+		try {
+			return new RegExp(regexMatch[1], regexMatch[2]).test(path);
+		} catch (error) {
+			onError(`Invalid regex pattern in exclusions: ${pattern}`, error);
+			return false;
+		}
+	}
+
+	const source = pattern
+		.split("**")
+		.map((part) =>
+			part
+				.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+				.replace(/\*/g, "[^/]*")
+				.replace(/\?/g, "[^/]")
+		)
+		.join(".*")
+		// **/ also matches no folders at all
+		.replace(/\.\*\//g, "(?:.*/)?");
+	return new RegExp(`^${source}$`).test(path);
+}
+
+/**
+ * Renders the controls for a set of exclusions, one pattern, file or tag
+ * per line.
+ */
+function displayExclusionSettings(
+	containerEl: HTMLElement,
+	exclusions: ArchiveExclusions,
+	onChange: () => Promise<void> | void
+): void {
+	const parseLines = (value: string) =>
+		value
+			.split("\n")
+			.map((line) => line.trim())
+			.filter((line) => line.length > 0);
+
+	new Setting(containerEl)
+		.setName("Excluded paths")
+		.setDesc("Globs such as Templates/** or *.excalidraw.md, or regular expressions written as /pattern/. One per line.")
+		.addTextArea((text) =>
+			text
+				.setValue(exclusions.patterns.join("\n"))
+				.onChange(async (value) => {
+					exclusions.patterns = parseLines(value);
+					await onChange();
+				})
+		);
+
+	new Setting(containerEl)
+		.setName("Excluded files")
+		.setDesc("Files and folders that are never archived. One path per line.")
+		.addTextArea((text) =>
+			text
+				.setValue(exclusions.files.join("\n"))
+				.onChange(async (value) => {
+					exclusions.files = parseLines(value).map((line) => normalizePath(line));
+					await onChange();
+				})
+		);
+
+	new Setting(containerEl)
+		.setName("Excluded tags")
+		.setDesc("Notes with any of these tags are never archived, e.g. pinned, moc")
+		.addText((text) =>
+			text
+				.setValue(exclusions.tags.join(", "))
+				.onChange(async (value) => {
+					exclusions.tags = value
+						.split(",")
+						.map((tag) => tag.trim())
+						.filter((tag) => tag.length > 0);
+					await onChange();
+				})
+		);
+}
+
+class FolderSuggest extends AbstractInputSuggest<TFolder> {
+	protected getSuggestions(query: string): TFolder[] {
+		const lowerQuery = query.toLowerCase();
+		return this.app.vault
+			.getAllFolders()
+			.filter((folder) => folder.path.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(folder: TFolder, el: HTMLElement): void {
+		el.setText(folder.path);
+	}
+}
+
+class SimpleArchiverPromptModal extends Modal {
+	cancelCallback: () => Promise<void>;
+	chosen = false;
+
+	constructor(
+		app: App,
+		title: string,
+		message: string,
+		yesButtonText: string,
+		noButtonText: string,
+		callback: () => Promise<void>,
+		cancelCallback: () => Promise<void>
+	) {
+		super(app);
+
+		this.setTitle(title);
+
+		this.setContent(message);
+
+		this.cancelCallback = cancelCallback;
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText(yesButtonText)
+					.setWarning()
+					.onClick(() => {
+						this.chosen = true;
+						callback();
+						this.close();
+					})
+			)
+			.addButton((btn) =>
+				btn.setButtonText(noButtonText).onClick(() => {
+					this.close();
+				})
+			);
+	}
+
+	onClose() {
+		// Closing without confirming counts as cancelling
+		if (!this.chosen) {
+			this.cancelCallback();
+		}
+	}
+}
+
+class ArchiveBrowserView extends ItemView {
+	plugin: SimpleArchiver;
+	items: ArchiveBrowserItem[] = [];
+	selected: Set<string> = new Set();
+	search = "";
+	ruleFilter = "all";
+	folderFilter = "all";
+	dateFilter = "all";
+	sortKey: ArchiveBrowserSortKey = "archivedAt";
+	sortAscending = false;
+	listEl: HTMLElement;
+	selectionEl: HTMLElement;
+	actionButtons: ButtonComponent[] = [];
+	requestRefresh = debounce(() => this.refresh(), 300, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: SimpleArchiver) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_ARCHIVE_BROWSER;
+	}
+
+	getDisplayText(): string {
+		return "Archive browser";
+	}
+
+	getIcon(): string {
+		return "archive";
+	}
+
+	async onOpen() {
+		this.registerEvent(this.app.vault.on("create", () => this.requestRefresh()));
+		this.registerEvent(this.app.vault.on("delete", () => this.requestRefresh()));
+		this.registerEvent(this.app.vault.on("rename", () => this.requestRefresh()));
+
+		this.render();
+	}
+
+	async onClose() {
+		this.requestRefresh.cancel();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("archive-browser");
+
+		const toolbarEl = contentEl.createDiv({ cls: "archive-browser-toolbar" });
+
+		new SearchComponent(toolbarEl)
+			.setPlaceholder("Search archive")
+			.setValue(this.search)
+			.onChange((value) => {
+				this.search = value.toLowerCase();
+				this.renderList();
+			});
+
+		const ruleDropdown = new DropdownComponent(toolbarEl)
+			.addOption("all", "All rules")
+			.addOption("manual", "Archived manually");
+		for (const rule of this.plugin.settings.autoArchiveRules) {
+			ruleDropdown.addOption(rule.id, `Rule: ${this.plugin.getRuleName(rule)}`);
+		}
+		ruleDropdown.setValue(this.ruleFilter).onChange((value) => {
+			this.ruleFilter = value;
+			this.renderList();
+		});
+
+		new DropdownComponent(toolbarEl)
+			.addOption("all", "Any date")
+			.addOption("7", "Last 7 days")
+			.addOption("30", "Last 30 days")
+			.addOption("90", "Last 90 days")
+			.addOption("365", "Last year")
+			.setValue(this.dateFilter)
+			.onChange((value) => {
+				this.dateFilter = value;
+				this.renderList();
+			});
+
+		const folderDropdown = new DropdownComponent(toolbarEl).addOption(
+			"all",
+			"All archives"
+		);
+		for (const destination of this.plugin.getArchiveDestinations()) {
+			folderDropdown.addOption(destination.path, destination.name || destination.path);
+		}
+		folderDropdown.setValue(this.folderFilter).onChange((value) => {
+			this.folderFilter = value;
+			this.renderList();
+		});
+
+		const actionsEl = contentEl.createDiv({ cls: "archive-browser-actions" });
+		this.selectionEl = actionsEl.createSpan({ cls: "archive-browser-selection" });
+
+		const restoreButton = new ButtonComponent(actionsEl)
+			.setButtonText("Restore")
+			.onClick(async () => {
+				await this.plugin.unarchiveAllFiles(this.getSelectedFiles());
+				this.clearSelection();
+			});
+
+		const moveButton = new ButtonComponent(actionsEl)
+			.setButtonText("Move to archive…")
+			.onClick(() => {
+				const files = this.getSelectedFiles();
+				this.plugin.pickArchiveDestination(files, async (destination) => {
+					await this.plugin.rearchiveAllFiles(files, destination.id);
+					this.clearSelection();
+				});
+			});
+
+		const deleteButton = new ButtonComponent(actionsEl)
+			.setButtonText("Delete permanently")
+			.setWarning()
+			.onClick(() => {
+				const files = this.getSelectedFiles();
+				new SimpleArchiverPromptModal(
+					this.app,
+					"Delete permanently?",
+					`${files.length} archived files will be deleted. This cannot be undone.`,
+					"Delete",
+					"Cancel",
+					async () => {
+						for (const file of files) {
+							await this.app.vault.delete(file);
+						}
+						new Notice(`${files.length} files deleted`);
+						this.clearSelection();
+					},
+					async () => {}
+				).open();
+			});
+
+		this.actionButtons = [restoreButton, moveButton, deleteButton];
+
+		this.listEl = contentEl.createDiv({ cls: "archive-browser-list" });
+		this.refresh();
+	}
+
+	private refresh(): void {
+		this.items = this.plugin.getArchivedItems();
+
+		// Drop selections for files that have left the archive
+		const paths = new Set(this.items.map((item) => item.file.path));
+		for (const path of this.selected) {
+			if (!paths.has(path)) {
+				this.selected.delete(path);
+			}
+		}
+
+		this.renderList();
+	}
+
+	private renderList(): void {
+		this.listEl.empty();
+
+		const items = this.getVisibleItems();
+		this.updateSelection();
+
+		if (items.length === 0) {
+			this.listEl.createEl("p", {
+				text: this.items.length === 0 ? "The archive is empty." : "No archived files match.",
+				cls: "setting-item-description"
+			});
+			return;
+		}
+
+		const table = this.listEl.createEl("table", { cls: "archive-browser-table" });
+		const headerRow = table.createEl("thead").createEl("tr");
+
+		const selectAll = headerRow.createEl("th").createEl("input", { type: "checkbox" });
+		selectAll.checked = items.every((item) => this.selected.has(item.file.path));
+		selectAll.addEventListener("change", () => {
+			for (const item of items) {
+				if (selectAll.checked) {
+					this.selected.add(item.file.path);
+				} else {
+					this.selected.delete(item.file.path);
+				}
+			}
+			this.renderList();
+		});
+
+		const columns: [ArchiveBrowserSortKey, string][] = [
+			["name", "Name"],
+			["originalPath", "Original location"],
+			["archivedAt", "Archived"],
+			["size", "Size"],
+			["rule", "Rule"],
+		];
+
+		for (const [key, label] of columns) {
+			const arrow = this.sortKey === key ? (this.sortAscending ? " ▲" : " ▼") : "";
+			const th = headerRow.createEl("th", { text: `${label}${arrow}` });
+			th.addEventListener("click", () => {
+				if (this.sortKey === key) {
+					this.sortAscending = !this.sortAscending;
+				} else {
+					this.sortKey = key;
+					this.sortAscending = true;
+				}
+				this.renderList();
+			});
+		}
+
+		const body = table.createEl("tbody");
+		for (const item of items) {
+			const row = body.createEl("tr");
+
+			const checkbox = row.createEl("td").createEl("input", { type: "checkbox" });
+			checkbox.checked = this.selected.has(item.file.path);
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.selected.add(item.file.path);
+				} else {
+					this.selected.delete(item.file.path);
+				}
+				this.updateSelection();
+			});
+
+			const nameEl = row.createEl("td").createEl("a", {
+				text: item.file.name,
+				attr: { title: item.file.path },
+			});
+			nameEl.addEventListener("click", () => {
+				this.app.workspace.getLeaf(false).openFile(item.file);
+			});
+
+			row.createEl("td", { text: item.originalPath });
+			row.createEl("td", {
+				text: item.record ? new Date(item.record.timestamp).toLocaleDateString() : "—",
+			});
+			row.createEl("td", { text: this.formatSize(item.file.stat.size) });
+			row.createEl("td", { text: this.getRuleText(item) });
+		}
+	}
+
+	private getVisibleItems(): ArchiveBrowserItem[] {
+		const now = Date.now();
+
+		const items = this.items.filter((item) => {
+			if (
+				this.search &&
+				!item.file.path.toLowerCase().includes(this.search) &&
+				!item.originalPath.toLowerCase().includes(this.search)
+			) {
+				return false;
+			}
+
+			if (this.folderFilter !== "all" && item.archiveFolder !== this.folderFilter) {
+				return false;
+			}
+
+			if (this.ruleFilter === "manual") {
+				if (item.record?.trigger === "rule") {
+					return false;
+				}
+			} else if (this.ruleFilter !== "all" && item.record?.ruleId !== this.ruleFilter) {
+				return false;
+			}
+
+			if (this.dateFilter !== "all") {
+				const maxAgeMs = parseInt(this.dateFilter) * 24 * 60 * 60 * 1000;
+				if (!item.record || now - item.record.timestamp > maxAgeMs) {
+					return false;
+				}
+			}
+
+			return true;
+		});
+
+		const direction = this.sortAscending ? 1 : -1;
+		return items.sort((a, b) => direction * this.compareItems(a, b));
+	}
+
+	private compareItems(a: ArchiveBrowserItem, b: ArchiveBrowserItem): number {
+		switch (this.sortKey) {
+			case "name":
+				return a.file.name.localeCompare(b.file.name);
+			case "originalPath":
+				return a.originalPath.localeCompare(b.originalPath);
+			case "archivedAt":
+				return (a.record?.timestamp ?? 0) - (b.record?.timestamp ?? 0);
+			case "size":
+				return a.file.stat.size - b.file.stat.size;
+			case "rule":
+				return this.getRuleText(a).localeCompare(this.getRuleText(b));
+		}
+	}
+
+	private getRuleText(item: ArchiveBrowserItem): string {
+		if (!item.record) {
+			return "—";
+		} else if (item.record.trigger !== "rule") {
+			return "Manual";
+		}
+
+		const rule = this.plugin.settings.autoArchiveRules.find(
+			(r) => r.id === item.record?.ruleId
+		);
+		return rule ? this.plugin.getRuleName(rule) : "(deleted rule)";
+	}
+
+	private formatSize(bytes: number): string {
+		if (bytes < 1024) {
+			return `${bytes} B`;
+		} else if (bytes < 1024 * 1024) {
+			return `${(bytes / 1024).toFixed(1)} KB`;
+		}
+		return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+	}
+
+	private getSelectedFiles(): TFile[] {
+		return this.items
+			.filter((item) => this.selected.has(item.file.path))
+			.map((item) => item.file);
+	}
+
+	private clearSelection(): void {
+		this.selected.clear();
+		this.renderList();
+	}
+
+	private updateSelection(): void {
+		this.selectionEl.setText(`${this.selected.size} selected`);
+		for (const button of this.actionButtons) {
+			button.setDisabled(this.selected.size === 0);
+		}
+	}
+}
+
+class ArchiveDestinationSuggestModal extends FuzzySuggestModal<ArchiveDestination> {
+	destinations: ArchiveDestination[];
+	onChoose: (destination: ArchiveDestination) => Promise<void>;
+
+	constructor(
+		app: App,
+		destinations: ArchiveDestination[],
+		onChoose: (destination: ArchiveDestination) => Promise<void>
+	) {
+		super(app);
+		this.destinations = destinations;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Choose an archive");
+	}
+
+	getItems(): ArchiveDestination[] {
+		return this.destinations;
+	}
+
+	getItemText(destination: ArchiveDestination): string {
+		return `${destination.name || destination.path} (${destination.path})`;
+	}
+
+	onChooseItem(destination: ArchiveDestination): void {
+		this.onChoose(destination);
+	}
+}
+
+class ZipBundleModal extends Modal {
+	constructor(app: App, zip: TFile, entries: ZipBundleEntry[]) {
+		super(app);
+
+		this.setTitle(zip.name);
+
+		if (entries.length === 0) {
+			this.contentEl.createEl("p", {
+				text: "This zip file is empty.",
+				cls: "setting-item-description"
+			});
+			return;
+		}
+
+		for (const entry of entries) {
+			new Setting(this.contentEl)
+				.setName(entry.name)
+				.setDesc(
+					entry.originalPath
+						? `${entry.size} bytes · from ${entry.originalPath}`
+						: `${entry.size} bytes`
+				)
+				.setClass("zip-bundle-entry");
+		}
+	}
+}
+
+class ArchiveNoteModal extends Modal {
+	reason = "";
+	tags = "";
+	onSubmit: (note: ArchiveNote) => Promise<void>;
+
+	constructor(app: App, onSubmit: (note: ArchiveNote) => Promise<void>) {
+		super(app);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.setTitle("Archive with note");
+
+		new Setting(contentEl)
+			.setName("Reason")
+			.setDesc("Why is this being archived?")
+			.addTextArea((text) =>
+				text.setValue(this.reason).onChange((value) => {
+					this.reason = value;
+				})
+			);
+
+		new Setting(contentEl)
+			.setName("Tags")
+			.setDesc("Comma-separated, e.g. done, project/closed")
+			.addText((text) =>
+				text.setValue(this.tags).onChange((value) => {
+					this.tags = value;
+				})
+			);
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Archive")
+					.setCta()
+					.onClick(async () => {
+						this.close();
+						await this.onSubmit({
+							reason: this.reason.trim(),
+							tags: this.tags
+								.split(",")
+								.map((tag) => tag.trim().replace(/^#/, ""))
+								.filter((tag) => tag.length > 0),
+						});
+					})
+			)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => {
+					this.close();
+				})
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class ArchiveNoteDetailsModal extends Modal {
+	constructor(app: App, file: TAbstractFile, note: ArchiveNote) {
+		super(app);
+
+		this.setTitle(`Archive note: ${file.name}`);
+
+		new Setting(this.contentEl)
+			.setName("Reason")
+			.setDesc(note.reason || "(none)");
+
+		new Setting(this.contentEl)
+			.setName("Tags")
+			.setDesc(note.tags.length > 0 ? note.tags.map((tag) => `#${tag}`).join(" ") : "(none)");
+	}
+}
+
+class BacklinkReportModal extends Modal {
+	backlinks: Map<string, Set<string>>;
+	onChoose: (action: BacklinkAction | null) => void;
+	chosen = false;
+
+	constructor(
+		app: App,
+		backlinks: Map<string, Set<string>>,
+		onChoose: (action: BacklinkAction | null) => void
+	) {
+		super(app);
+		this.backlinks = backlinks;
+		this.onChoose = onChoose;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.setTitle("Archived items are still linked");
+
+		contentEl.createEl("p", {
+			text: `${this.backlinks.size} active ${this.backlinks.size === 1 ? "note links" : "notes link"} to the items being archived.`
+		});
+
+		const listEl = contentEl.createEl("ul", { cls: "backlink-report-list" });
+		for (const [sourcePath, targets] of this.backlinks) {
+			listEl.createEl("li", {
+				text: `${sourcePath} → ${[...targets].join(", ")}`
+			});
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Leave links")
+					.setCta()
+					.onClick(() => this.choose("leave"))
+			)
+			.addButton((button) =>
+				button.setButtonText("Convert to plain text").onClick(() => this.choose("plainText"))
+			)
+			.addButton((button) =>
+				button.setButtonText("Annotate links").onClick(() => this.choose("annotate"))
+			)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.choose(null))
+			);
+	}
+
+	private choose(action: BacklinkAction | null): void {
+		this.chosen = true;
+		this.onChoose(action);
+		this.close();
+	}
+
+	onClose() {
+		// Closing the modal without choosing counts as cancelling
+		if (!this.chosen) {
+			this.onChoose(null);
+		}
+		this.contentEl.empty();
+	}
+}
+
+class ConflictResolutionModal extends Modal {
+	options: ConflictResolution[];
+	onChoose: (choice: ConflictChoice | null) => void;
+	applyToAll = false;
+	chosen = false;
+
+	constructor(
+		app: App,
+		message: string,
+		options: ConflictResolution[],
+		onChoose: (choice: ConflictChoice | null) => void
+	) {
+		super(app);
+		this.options = options;
+		this.onChoose = onChoose;
+
+		this.setTitle("Item already exists");
+		this.setContent(message);
+	}
+
+	onOpen() {
+		new Setting(this.contentEl)
+			.setName("Apply to all remaining conflicts")
+			.addToggle((toggle) =>
+				toggle.setValue(this.applyToAll).onChange((value) => {
+					this.applyToAll = value;
+				})
+			);
+
+		const buttons = new Setting(this.contentEl);
+
+		for (const option of this.options) {
+			buttons.addButton((button) => {
+				button.setButtonText(this.getOptionText(option)).onClick(() => {
+					this.choose({ resolution: option, applyToAll: this.applyToAll });
+				});
+				if (option === "replace") {
+					button.setWarning();
+				}
+			});
+		}
+
+		buttons.addButton((button) =>
+			button.setButtonText("Cancel").onClick(() => {
+				this.choose(null);
+			})
+		);
+	}
+
+	private getOptionText(option: ConflictResolution): string {
+		switch (option) {
+			case "replace":
+				return "Replace";
+			case "rename":
+				return "Keep both";
+			case "merge":
+				return "Merge folders";
+			case "keepNewer":
+				return "Keep newer";
+			case "skip":
+				return "Skip";
+		}
+	}
+
+	private choose(choice: ConflictChoice | null): void {
+		this.chosen = true;
+		this.onChoose(choice);
+		this.close();
+	}
+
+	onClose() {
+		// Closing the modal without choosing counts as cancelling
+		if (!this.chosen) {
+			this.onChoose(null);
+		}
+		this.contentEl.empty();
+	}
+}
+
+class AutoArchivePreviewModal extends Modal {
+	matches: AutoArchiveRuleMatch[];
+	excluded: Set<TFile> = new Set();
+	onConfirm: (selected: AutoArchiveRuleMatch[]) => Promise<void>;
+
 	constructor(
 		app: App,
-		title: string,
-		message: string,
-		yesButtonText: string,
-		noButtonText: string,
-		callback: () => Promise<void>,
-		cancelCallback: () => Promise<void>
+		matches: AutoArchiveRuleMatch[],
+		onConfirm: (selected: AutoArchiveRuleMatch[]) => Promise<void>
 	) {
 		super(app);
+		this.matches = matches;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.setTitle("Auto-Archive Preview");
+
+		if (this.matches.length === 0) {
+			contentEl.createEl("p", {
+				text: "No enabled auto-archive rules.",
+				cls: "setting-item-description"
+			});
+			return;
+		}
+
+		let confirmButton: ButtonComponent;
+
+		for (const match of this.matches) {
+			const ruleEl = contentEl.createDiv({ cls: "auto-archive-preview-rule" });
+			ruleEl.createEl("h4", {
+				text: `${
+					match.rule.mode === "orphanedAttachments"
+						? "Orphaned attachments"
+						: `Folder: ${match.rule.folderPath || "(not set)"}`
+				} (${match.files.length} files)`
+			});
+
+			for (const skip of match.skipped) {
+				ruleEl.createDiv({
+					text: `Skipped ${skip.file.path}: ${skip.reason}`,
+					cls: "auto-archive-preview-file setting-item-description"
+				});
+			}
+
+			if (match.files.length === 0) {
+				ruleEl.createEl("p", {
+					text: "No files match this rule.",
+					cls: "setting-item-description"
+				});
+				continue;
+			}
+
+			for (const file of match.files) {
+				const fileEl = ruleEl.createEl("label", { cls: "auto-archive-preview-file" });
+				const checkbox = fileEl.createEl("input", { type: "checkbox" });
+				checkbox.checked = !this.excluded.has(file);
+				checkbox.addEventListener("change", () => {
+					if (checkbox.checked) {
+						this.excluded.delete(file);
+					} else {
+						this.excluded.add(file);
+					}
+					confirmButton.setButtonText(this.getConfirmText());
+				});
+				fileEl.createSpan({ text: file.path });
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton((button) => {
+				confirmButton = button;
+				button
+					.setButtonText(this.getConfirmText())
+					.setCta()
+					.onClick(async () => {
+						this.close();
+						await this.onConfirm(this.getSelectedMatches());
+					});
+			})
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => {
+					this.close();
+				})
+			);
+	}
+
+	private getSelectedMatches(): AutoArchiveRuleMatch[] {
+		return this.matches.map((match) => ({
+			rule: match.rule,
+			files: match.files.filter((file) => !this.excluded.has(file)),
+			skipped: match.skipped,
+			moved: [],
+			errors: match.errors,
+		}));
+	}
+
+	private getConfirmText(): string {
+		const count = this.getSelectedMatches().reduce(
+			(total, match) => total + match.files.length,
+			0
+		);
+		return `Archive ${count} files`;
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class ArchiveHistoryModal extends Modal {
+	plugin: SimpleArchiver;
+
+	constructor(app: App, plugin: SimpleArchiver) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.setTitle("Archive History");
+
+		const history = this.plugin.settings.archiveHistory;
+
+		if (history.length === 0) {
+			contentEl.createEl("p", {
+				text: "No archive operations recorded yet.",
+				cls: "setting-item-description"
+			});
+			return;
+		}
+
+		new Setting(contentEl)
+			.setDesc(`${history.length} operations recorded`)
+			.addButton((button) =>
+				button
+					.setButtonText("Clear history")
+					.setWarning()
+					.onClick(() => {
+						new SimpleArchiverPromptModal(
+							this.app,
+							"Clear archive history?",
+							"All recorded operations will be removed and can no longer be undone.",
+							"Clear",
+							"Cancel",
+							async () => {
+								this.plugin.settings.archiveHistory = [];
+								await this.plugin.saveSettings();
+								this.onOpen();
+							},
+							async () => {}
+						).open();
+					})
+			);
+
+		// Group entries by batch, newest batch first
+		const batches = new Map<string, ArchiveHistoryEntry[]>();
+		for (const entry of [...history].reverse()) {
+			const batch = batches.get(entry.batchId) ?? [];
+			batch.push(entry);
+			batches.set(entry.batchId, batch);
+		}
+
+		for (const [batchId, entries] of batches) {
+			this.displayBatch(contentEl, batchId, entries);
+		}
+	}
+
+	private displayBatch(
+		containerEl: HTMLElement,
+		batchId: string,
+		entries: ArchiveHistoryEntry[]
+	): void {
+		const batchEl = containerEl.createDiv({ cls: "archive-history-batch" });
+		const undoable = entries.filter((entry) => entry.success && !entry.undone);
+
+		const header = new Setting(batchEl)
+			.setName(
+				`${new Date(entries[0].timestamp).toLocaleString()} · ${this.getTriggerText(entries[0])}`
+			)
+			.setDesc(`${entries.length} ${entries.length === 1 ? "item" : "items"}`)
+			.setClass("archive-history-batch-header");
+
+		if (entries.length > 1 && undoable.length > 0) {
+			header.addButton((button) =>
+				button.setButtonText("Undo batch").onClick(async () => {
+					const restored = await this.plugin.undoHistoryBatch(batchId);
+					new Notice(`${restored} items restored`);
+					this.onOpen();
+				})
+			);
+		}
+
+		for (const entry of entries) {
+			const entrySetting = new Setting(batchEl)
+				.setName(
+					`${entry.operation === "archive" ? "Archived" : "Unarchived"} ${entry.sourcePath}`
+				)
+				.setDesc(
+					entry.success
+						? `→ ${entry.destinationPath}${entry.undone ? " (undone)" : ""}`
+						: entry.message
+				)
+				.setClass("archive-history-entry");
+
+			if (entry.success && !entry.undone) {
+				entrySetting.addButton((button) =>
+					button.setButtonText("Undo").onClick(async () => {
+						const result = await this.plugin.undoHistoryEntry(entry);
+						new Notice(result.message);
+						this.onOpen();
+					})
+				);
+			}
+		}
+	}
+
+	private getTriggerText(entry: ArchiveHistoryEntry): string {
+		if (entry.trigger === "rule") {
+			const rule = this.plugin.settings.autoArchiveRules.find(
+				(r) => r.id === entry.ruleId
+			);
+			return `Auto-archive rule: ${rule ? this.plugin.getRuleName(rule) : "(deleted rule)"}`;
+		} else if (entry.trigger === "contextMenu") {
+			return "Context menu";
+		}
+		return "Command";
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class NeedsAttentionModal extends Modal {
+	plugin: SimpleArchiver;
+
+	constructor(app: App, plugin: SimpleArchiver) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.setTitle("Needs Attention");
+
+		const items = this.plugin.settings.needsAttention;
+
+		if (items.length === 0) {
+			contentEl.createEl("p", {
+				text: "Nothing needs attention. Auto-archive conflicts that were skipped or queued appear here.",
+				cls: "setting-item-description"
+			});
+			return;
+		}
+
+		for (const item of [...items].reverse()) {
+			new Setting(contentEl)
+				.setName(item.path)
+				.setDesc(`${new Date(item.timestamp).toLocaleString()} · ${item.reason}`)
+				.addButton((button) =>
+					button
+						.setButtonText("Resolve")
+						.setCta()
+						.onClick(async () => {
+							const result = await this.plugin.resolveNeedsAttention(item);
+							new Notice(result.message);
+							this.onOpen();
+						})
+				)
+				.addButton((button) =>
+					button.setButtonText("Dismiss").onClick(async () => {
+						await this.plugin.dismissNeedsAttention(item);
+						this.onOpen();
+					})
+				);
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class ExportRulesModal extends Modal {
+	plugin: SimpleArchiver;
+	selected: Set<string>;
+	format: AutoArchiveRulesFormat = "json";
+	path = "simple-archiver-rules.json";
+
+	constructor(app: App, plugin: SimpleArchiver) {
+		super(app);
+		this.plugin = plugin;
+		this.selected = new Set(plugin.settings.autoArchiveRules.map((rule) => rule.id));
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.setTitle("Export Auto-Archive Rules");
+
+		if (this.plugin.settings.autoArchiveRules.length === 0) {
+			contentEl.createEl("p", {
+				text: "There are no auto-archive rules to export.",
+				cls: "setting-item-description"
+			});
+			return;
+		}
+
+		for (const rule of this.plugin.settings.autoArchiveRules) {
+			new Setting(contentEl).setName(this.plugin.getRuleName(rule)).addToggle((toggle) =>
+				toggle.setValue(this.selected.has(rule.id)).onChange((value) => {
+					if (value) {
+						this.selected.add(rule.id);
+					} else {
+						this.selected.delete(rule.id);
+					}
+				})
+			);
+		}
+
+		new Setting(contentEl).setName("Format").addDropdown((dropdown) =>
+			dropdown
+				.addOption("json", "JSON")
+				.addOption("yaml", "YAML")
+				.setValue(this.format)
+				.onChange((value) => {
+					this.format = value as AutoArchiveRulesFormat;
+					this.path = this.path.replace(/\.(json|yaml)$/, `.${this.format}`);
+					this.onOpen();
+				})
+		);
+
+		new Setting(contentEl)
+			.setName("File")
+			.setDesc("Path in the vault to save the rules to")
+			.addText((text) =>
+				text.setValue(this.path).onChange((value) => {
+					this.path = value.trim();
+				})
+			);
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Copy to clipboard").onClick(async () => {
+					try {
+						await navigator.clipboard.writeText(this.getExport());
+						new Notice(`${this.selected.size} rules copied to the clipboard`);
+						this.close();
+					} catch (error) {
+						new Notice(`Unable to copy the rules to the clipboard: ${error}`);
+					}
+				})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Save to vault")
+					.setCta()
+					.onClick(async () => {
+						const path = normalizePath(this.path);
+						const existing = this.app.vault.getAbstractFileByPath(path);
+						if (existing instanceof TFile) {
+							new SimpleArchiverPromptModal(
+								this.app,
+								"Replace existing file?",
+								`${path} already exists and will be overwritten.`,
+								"Replace",
+								"Cancel",
+								async () => this.saveToVault(path, existing),
+								async () => {}
+							).open();
+						} else if (existing) {
+							new Notice(`${path} is a folder`);
+						} else {
+							await this.saveToVault(path, null);
+						}
+					})
+			);
+	}
+
+	private async saveToVault(path: string, existing: TFile | null): Promise<void> {
+		const data = this.getExport();
+		try {
+			if (existing) {
+				await this.app.vault.process(existing, () => data);
+			} else {
+				await this.plugin.ensureParentFolder(path);
+				await this.app.vault.create(path, data);
+			}
+			new Notice(`${this.selected.size} rules saved to ${path}`);
+			this.close();
+		} catch (error) {
+			new Notice(`Unable to save the rules to ${path}: ${error}`);
+		}
+	}
+
+	private getExport(): string {
+		const rules = this.plugin.settings.autoArchiveRules.filter((rule) =>
+			this.selected.has(rule.id)
+		);
+		return this.plugin.exportRules(rules, this.format);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class ImportRulesModal extends Modal {
+	plugin: SimpleArchiver;
+	onImport: () => void;
+	text = "";
+	path = "simple-archiver-rules.json";
+	mode: "merge" | "replace" = "merge";
+	parsed: AutoArchiveRulesImport | null = null;
+	summaryEl: HTMLElement;
+	importButton: ButtonComponent;
+
+	constructor(app: App, plugin: SimpleArchiver, onImport: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.onImport = onImport;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.setTitle("Import Auto-Archive Rules");
+
+		let rulesText: TextAreaComponent;
+		new Setting(contentEl)
+			.setName("Rules")
+			.setDesc("Paste exported rules as JSON or YAML, or load them from the clipboard or a file")
+			.addTextArea((text) => {
+				rulesText = text;
+				text.setValue(this.text).onChange((value) => {
+					this.setText(value);
+				});
+			})
+			.addButton((button) =>
+				button.setButtonText("Paste").onClick(async () => {
+					try {
+						const value = await navigator.clipboard.readText();
+						rulesText.setValue(value);
+						this.setText(value);
+					} catch (error) {
+						new Notice(`Unable to read the clipboard: ${error}`);
+					}
+				})
+			);
+
+		new Setting(contentEl)
+			.setName("File")
+			.setDesc("Path in the vault of exported rules")
+			.addText((text) =>
+				text.setValue(this.path).onChange((value) => {
+					this.path = value.trim();
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText("Load").onClick(async () => {
+					const path = normalizePath(this.path);
+					const file = this.app.vault.getFileByPath(path);
+					if (!file) {
+						new Notice(`${path} doesn't exist`);
+						return;
+					}
+					try {
+						const value = await this.app.vault.cachedRead(file);
+						rulesText.setValue(value);
+						this.setText(value);
+					} catch (error) {
+						new Notice(`Unable to read ${path}: ${error}`);
+					}
+				})
+			);
 
-		this.setTitle(title);
+		new Setting(contentEl)
+			.setName("Existing rules")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("merge", "Merge, updating rules with the same id or folder")
+					.addOption("replace", "Replace all existing rules")
+					.setValue(this.mode)
+					.onChange((value) => {
+						this.mode = value as "merge" | "replace";
+					})
+			);
 
-		this.setContent(message);
+		this.summaryEl = contentEl.createDiv({ cls: "auto-archive-rule-validation" });
 
-		new Setting(this.contentEl)
-			.addButton((btn) =>
-				btn
-					.setButtonText(yesButtonText)
-					.setWarning()
-					.onClick(() => {
-						callback();
+		new Setting(contentEl)
+			.addButton((button) => {
+				this.importButton = button;
+				button
+					.setButtonText("Import")
+					.setCta()
+					.onClick(async () => {
+						if (!this.parsed || this.parsed.errors.length > 0) {
+							return;
+						}
+						const { added, updated } = await this.plugin.importRules(
+							this.parsed.rules,
+							this.mode
+						);
+						new Notice(`${added} rules added, ${updated} rules updated`);
+						this.onImport();
 						this.close();
-					})
-			)
-			.addButton((btn) =>
-				btn.setButtonText(noButtonText).onClick(() => {
-					cancelCallback();
+					});
+			})
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => {
 					this.close();
 				})
 			);
+
+		this.refreshSummary();
+	}
+
+	private setText(value: string): void {
+		this.text = value;
+		this.parsed = value.trim() ? this.plugin.parseRulesImport(value) : null;
+		this.refreshSummary();
+	}
+
+	private refreshSummary(): void {
+		this.summaryEl.empty();
+		const parsed = this.parsed;
+		const canImport = parsed !== null && parsed.errors.length === 0 && parsed.rules.length > 0;
+		this.importButton.setDisabled(!canImport);
+
+		if (!parsed) {
+			return;
+		}
+
+		this.summaryEl.toggleClass("mod-warning", parsed.errors.length > 0);
+		this.summaryEl.createDiv({
+			text: parsed.errors.length > 0
+				? "These rules can't be imported:"
+				: `${parsed.rules.length} rules ready to import`
+		});
+		for (const message of [...parsed.errors, ...parsed.warnings]) {
+			this.summaryEl.createDiv({ text: `• ${message}` });
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
 	}
 }
 
@@ -719,6 +5658,15 @@ class AutoArchiveRuleModal extends Modal {
 	onSave: () => Promise<void>;
 	onCancel?: () => Promise<void>;
 	folderPathInput: HTMLInputElement;
+	matchCountSetting: Setting;
+	conditionsContainer: HTMLElement;
+	folderMessageEl: HTMLElement | null = null;
+	conditionErrorEls: Map<AutoArchiveCondition, HTMLElement> = new Map();
+	validationEl: HTMLElement;
+	saveButton: ButtonComponent;
+	isTesting = false;
+	testRequestId = 0;
+	requestMatchCount = debounce(() => this.refreshMatchCount(), 500, true);
 
 	constructor(
 		app: App,
@@ -739,7 +5687,242 @@ class AutoArchiveRuleModal extends Modal {
 		contentEl.empty();
 
 		this.setTitle("Edit Auto-Archive Rule");
+		this.folderMessageEl = null;
+
+		// Rule mode
+		new Setting(contentEl)
+			.setName("Rule type")
+			.setDesc("Archive matching files in a folder, or attachments anywhere in the vault that no active note links to")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("folder", "Files in a folder")
+					.addOption("orphanedAttachments", "Orphaned attachments")
+					.setValue(this.rule.mode || "folder")
+					.onChange((value) => {
+						if (value === "orphanedAttachments") {
+							this.rule.mode = "orphanedAttachments";
+							if (!this.rule.attachmentExtensions) {
+								this.rule.attachmentExtensions = [...DEFAULT_ATTACHMENT_EXTENSIONS];
+							}
+							this.rule.triggers = this.rule.triggers?.filter((t) => t === "startup");
+
+							// Start from a sensible age rather than every orphan
+							if (this.rule.conditionGroup.conditions.length === 0) {
+								this.rule.conditionGroup.conditions.push({
+									type: "fileAge",
+									value: "30",
+									ageSource: "ctime",
+									ageUnit: "days",
+								});
+							}
+						} else {
+							delete this.rule.mode;
+							delete this.rule.attachmentExtensions;
+						}
+						this.onRuleChanged();
+						this.onOpen();
+					})
+			);
+
+		if (this.rule.mode === "orphanedAttachments") {
+			new Setting(contentEl)
+				.setName("Attachment extensions")
+				.setDesc("Comma-separated, e.g. png, pdf, mp3")
+				.addText((text) =>
+					text
+						.setValue((this.rule.attachmentExtensions ?? []).join(", "))
+						.onChange((value) => {
+							this.rule.attachmentExtensions = value
+								.split(",")
+								.map((extension) => extension.trim().replace(/^\./, ""))
+								.filter((extension) => extension.length > 0);
+							this.onRuleChanged();
+						})
+				);
+		} else {
+			this.displayFolderSettings(contentEl);
+		}
+
+		// Schedule override
+		new Setting(contentEl)
+			.setName("Custom schedule")
+			.setDesc("Run this rule on its own schedule instead of the global one")
+			.addToggle((toggle) =>
+				toggle.setValue(this.rule.schedule !== undefined).onChange((value) => {
+					if (value) {
+						this.rule.schedule = { ...this.plugin.settings.autoArchiveSchedule };
+					} else {
+						delete this.rule.schedule;
+					}
+					this.onOpen();
+				})
+			);
+
+		if (this.rule.schedule) {
+			displayScheduleSetting(
+				contentEl,
+				"Rule schedule",
+				"When this rule runs",
+				this.rule.schedule,
+				() => {},
+				() => this.onOpen()
+			);
+		}
+
+		// Event triggers
+		new Setting(contentEl)
+			.setName("Also run")
+			.setDesc("Vault events that run this rule right away for the affected files");
+		for (const trigger of Object.keys(EVENT_TRIGGER_LABELS) as AutoArchiveEventTrigger[]) {
+			if (this.rule.mode === "orphanedAttachments" && trigger !== "startup") {
+				continue;
+			}
+
+			new Setting(contentEl)
+				.setName(EVENT_TRIGGER_LABELS[trigger])
+				.setClass("auto-archive-rule-trigger")
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.rule.triggers?.includes(trigger) ?? false)
+						.onChange((value) => {
+							const triggers = (this.rule.triggers ?? []).filter(
+								(t) => t !== trigger
+							);
+							if (value) {
+								triggers.push(trigger);
+							}
+							this.rule.triggers = triggers;
+						})
+				);
+		}
+
+		// Exclusions on top of the global ones
+		new Setting(contentEl)
+			.setName("Rule exclusions")
+			.setDesc("Files this rule never archives, in addition to the protected files in the general settings")
+			.addToggle((toggle) =>
+				toggle.setValue(this.rule.exclusions !== undefined).onChange((value) => {
+					if (value) {
+						this.rule.exclusions = { patterns: [], files: [], tags: [] };
+					} else {
+						delete this.rule.exclusions;
+					}
+					this.onRuleChanged();
+					this.onOpen();
+				})
+			);
+
+		if (this.rule.exclusions) {
+			displayExclusionSettings(contentEl, this.rule.exclusions, () => this.onRuleChanged());
+		}
+
+		// Target archive
+		new Setting(contentEl)
+			.setName("Archive to")
+			.setDesc("The archive that matching files are moved to")
+			.addDropdown((dropdown) => {
+				for (const destination of this.plugin.getArchiveDestinations()) {
+					dropdown.addOption(
+						destination.id,
+						`${destination.name || destination.path} (${destination.path})`
+					);
+				}
+				dropdown
+					.setValue(this.rule.archiveId ?? DEFAULT_ARCHIVE_ID)
+					.onChange((value) => {
+						if (value === DEFAULT_ARCHIVE_ID) {
+							delete this.rule.archiveId;
+						} else {
+							this.rule.archiveId = value;
+						}
+					});
+			});
+
+		// Conflict policy for unattended runs
+		new Setting(contentEl)
+			.setName("When the destination exists")
+			.setDesc("What scheduled runs of this rule do when an item with the same name is already archived")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("default", "Use global setting")
+					.addOption("skip", "Skip")
+					.addOption("rename", "Keep both")
+					.addOption("replaceOlder", "Replace if older")
+					.addOption("queue", "Queue for review")
+					.setValue(this.rule.conflictPolicy ?? "default")
+					.onChange((value) => {
+						if (value === "default") {
+							delete this.rule.conflictPolicy;
+						} else {
+							this.rule.conflictPolicy = value as AutoArchiveConflictPolicy;
+						}
+					})
+			);
+
+		// Conditions section
+		contentEl.createEl("h3", { text: "Conditions" });
+
+		this.conditionsContainer = contentEl.createDiv({ cls: "auto-archive-conditions-container" });
+		this.refreshConditions();
+
+		// Test rule against the current vault contents
+		this.matchCountSetting = new Setting(contentEl)
+			.setName("Test rule")
+			.setDesc("Count the files this rule matches right now. Nothing is archived.")
+			.addButton((button) =>
+				button.setButtonText("Test rule").onClick(() => {
+					this.isTesting = true;
+					this.refreshMatchCount();
+				})
+			);
+
+		if (this.rule.mode === "orphanedAttachments") {
+			this.matchCountSetting.addButton((button) =>
+				button.setButtonText("Preview orphans").onClick(async () => {
+					await this.plugin.openAutoArchivePreview([this.rule]);
+				})
+			);
+		}
+
+		// Save and cancel buttons, with what stops the rule from being saved
+		this.validationEl = contentEl.createDiv({ cls: "auto-archive-rule-validation" });
+		new Setting(contentEl)
+			.addButton((button) => {
+				this.saveButton = button;
+				button
+					.setButtonText("Save")
+					.setCta()
+					.onClick(async () => {
+						if (this.plugin.getRuleErrors(this.rule).length > 0) {
+							return;
+						}
+						await this.onSave();
+						this.close();
+					});
+			})
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(async () => {
+					// Call custom cancel callback if provided
+					if (this.onCancel) {
+						await this.onCancel();
+					} else {
+						// Remove rule if it's new and has no folder path (backward compatibility)
+						if (!this.rule.folderPath && this.rule.mode !== "orphanedAttachments") {
+							this.plugin.settings.autoArchiveRules =
+								this.plugin.settings.autoArchiveRules.filter(
+									(r) => r.id !== this.rule.id
+								);
+							await this.plugin.saveSettings();
+						}
+					}
+					this.close();
+				})
+			);
+
+		this.refreshValidation();
+	}
 
+	private displayFolderSettings(contentEl: HTMLElement): void {
 		// Folder path setting
 		new Setting(contentEl)
 			.setName("Folder path")
@@ -750,8 +5933,17 @@ class AutoArchiveRuleModal extends Modal {
 					.setValue(this.rule.folderPath)
 					.onChange((value) => {
 						this.rule.folderPath = value;
+						this.onRuleChanged();
 					});
+
+				const suggest = new FolderSuggest(this.app, text.inputEl).onSelect((folder) => {
+					text.setValue(folder.path);
+					this.rule.folderPath = folder.path;
+					this.onRuleChanged();
+					suggest.close();
+				});
 			});
+		this.folderMessageEl = contentEl.createDiv({ cls: "auto-archive-rule-validation" });
 
 		// Use folder regex checkbox
 		new Setting(contentEl)
@@ -762,6 +5954,7 @@ class AutoArchiveRuleModal extends Modal {
 					.setValue(this.rule.useFolderRegex || false)
 					.onChange((value) => {
 						this.rule.useFolderRegex = value;
+						this.onRuleChanged();
 					})
 			);
 
@@ -774,145 +5967,438 @@ class AutoArchiveRuleModal extends Modal {
 					.setValue(this.rule.applyRecursively || false)
 					.onChange((value) => {
 						this.rule.applyRecursively = value;
+						this.onRuleChanged();
 					})
 			);
+	}
 
-		// Logic operator setting
-		new Setting(contentEl)
-			.setName("Logic operator")
-			.setDesc("How to combine multiple conditions")
+	private refreshConditions(): void {
+		this.conditionsContainer.empty();
+		this.conditionErrorEls.clear();
+		this.displayConditionGroup(this.conditionsContainer, this.rule.conditionGroup, null, 0);
+	}
+
+	private displayConditionGroup(
+		containerEl: HTMLElement,
+		group: AutoArchiveConditionGroup,
+		parent: AutoArchiveConditionGroup | null,
+		index: number
+	): void {
+		const groupEl = containerEl.createDiv({
+			cls: parent ? "auto-archive-condition-group" : "auto-archive-condition-root",
+		});
+
+		const setting = new Setting(groupEl)
+			.setName(parent ? `Group ${index + 1}` : "Match")
+			.addDropdown((dropdown) => this.addNegateOptions(dropdown, group))
 			.addDropdown((dropdown) =>
 				dropdown
-					.addOption("AND", "AND (all conditions must match)")
-					.addOption("OR", "OR (any condition must match)")
-					.setValue(this.rule.logicOperator || "AND")
+					.addOption("AND", "all of these")
+					.addOption("OR", "any of these")
+					.setValue(group.logicOperator)
 					.onChange((value) => {
-						this.rule.logicOperator = value as "AND" | "OR";
+						group.logicOperator = value as "AND" | "OR";
+						this.onRuleChanged();
 					})
 			);
 
-		// Conditions section
-		contentEl.createEl("h3", { text: "Conditions" });
+		if (parent) {
+			this.addConditionNodeButtons(setting, parent.conditions, index);
+		}
 
-		const conditionsContainer = contentEl.createDiv({ cls: "auto-archive-conditions-container" });
-		this.displayConditions(conditionsContainer);
+		if (group.conditions.length === 0) {
+			groupEl.createEl("p", {
+				text: parent
+					? "No conditions in this group yet."
+					: "No conditions added yet. Add at least one condition.",
+				cls: "setting-item-description"
+			});
+		}
 
-		// Add condition button
-		new Setting(contentEl).addButton((button) =>
-			button.setButtonText("Add Condition").onClick(() => {
-				this.addCondition();
-			})
-		);
+		group.conditions.forEach((child, i) => {
+			if (child.type === "group") {
+				this.displayConditionGroup(groupEl, child, group, i);
+			} else {
+				this.displayCondition(groupEl, child, group.conditions, i);
+			}
+		});
 
-		// Save and cancel buttons
-		new Setting(contentEl)
+		new Setting(groupEl)
+			.addButton((button) =>
+				button.setButtonText("Add Condition").onClick(() => {
+					group.conditions.push({ type: "fileAge", value: "" });
+					this.refreshConditions();
+					this.onRuleChanged();
+				})
+			)
 			.addButton((button) =>
+				button.setButtonText("Add Group").onClick(() => {
+					group.conditions.push({ type: "group", logicOperator: "OR", conditions: [] });
+					this.refreshConditions();
+					this.onRuleChanged();
+				})
+			);
+	}
+
+	private addNegateOptions(
+		dropdown: DropdownComponent,
+		node: AutoArchiveConditionNode
+	): DropdownComponent {
+		return dropdown
+			.addOption("is", "is")
+			.addOption("not", "is not")
+			.setValue(node.negate ? "not" : "is")
+			.onChange((value) => {
+				if (value === "not") {
+					node.negate = true;
+				} else {
+					delete node.negate;
+				}
+				this.onRuleChanged();
+			});
+	}
+
+	/**
+	 * Adds the buttons to reorder and remove a condition or group.
+	 */
+	private addConditionNodeButtons(
+		setting: Setting,
+		siblings: AutoArchiveConditionNode[],
+		index: number
+	): void {
+		const move = (offset: number) => {
+			const [node] = siblings.splice(index, 1);
+			siblings.splice(index + offset, 0, node);
+			this.refreshConditions();
+			this.onRuleChanged();
+		};
+
+		setting
+			.addExtraButton((button) =>
 				button
-					.setButtonText("Save")
-					.setCta()
-					.onClick(async () => {
-						await this.onSave();
-						this.close();
-					})
+					.setIcon("arrow-up")
+					.setTooltip("Move up")
+					.setDisabled(index === 0)
+					.onClick(() => move(-1))
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("arrow-down")
+					.setTooltip("Move down")
+					.setDisabled(index === siblings.length - 1)
+					.onClick(() => move(1))
 			)
 			.addButton((button) =>
-				button.setButtonText("Cancel").onClick(async () => {
-					// Call custom cancel callback if provided
-					if (this.onCancel) {
-						await this.onCancel();
-					} else {
-						// Remove rule if it's new and has no folder path (backward compatibility)
-						if (!this.rule.folderPath) {
-							this.plugin.settings.autoArchiveRules =
-								this.plugin.settings.autoArchiveRules.filter(
-									(r) => r.id !== this.rule.id
-								);
-							await this.plugin.saveSettings();
+				button
+					.setButtonText("Remove")
+					.setWarning()
+					.onClick(() => {
+						siblings.splice(index, 1);
+						this.refreshConditions();
+						this.onRuleChanged();
+					})
+			);
+	}
+
+	private displayCondition(
+		containerEl: HTMLElement,
+		condition: AutoArchiveCondition,
+		siblings: AutoArchiveConditionNode[],
+		index: number
+	): void {
+		const conditionEl = containerEl.createDiv({ cls: "auto-archive-condition" });
+		this.conditionErrorEls.set(
+			condition,
+			conditionEl.createDiv({ cls: "auto-archive-rule-validation mod-warning" })
+		);
+
+		const setting = new Setting(conditionEl)
+			.setName(`Condition ${index + 1}`)
+			.addDropdown((dropdown) => this.addNegateOptions(dropdown, condition))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("fileAge", "File age")
+					.addOption("regexPattern", "File name regex")
+					.addOption("frontmatter", "Frontmatter property")
+					.addOption("tag", "Tags")
+					.addOption("notLinked", "Not linked from active notes")
+					.addOption("extension", "File extension")
+					.addOption("fileSize", "File size")
+					.addOption("wordCount", "Word count")
+					.addOption("contentRegex", "Note content regex")
+					.addOption("taskCompletion", "Tasks")
+					.setValue(condition.type)
+					.onChange((value) => {
+						condition.type = value as AutoArchiveConditionType;
+						condition.value = "";
+						if (condition.type === "fileAge") {
+							condition.ageSource = "mtime";
+							condition.ageUnit = "days";
+						} else {
+							delete condition.ageSource;
+							delete condition.ageUnit;
+						}
+						if (condition.type === "frontmatter") {
+							condition.frontmatterKey = "";
+							condition.frontmatterOperator = "equals";
+						} else {
+							delete condition.frontmatterKey;
+							delete condition.frontmatterOperator;
+						}
+						if (condition.type === "tag") {
+							condition.tagOperator = "has";
+						} else {
+							delete condition.tagOperator;
+						}
+						if (condition.type === "fileSize" || condition.type === "wordCount") {
+							condition.comparison =
+								condition.type === "fileSize" ? "greaterThan" : "lessThan";
+						} else {
+							delete condition.comparison;
+						}
+						if (condition.type === "fileSize") {
+							condition.sizeUnit = "MB";
+						} else {
+							delete condition.sizeUnit;
+						}
+						if (condition.type === "taskCompletion") {
+							condition.taskState = "allDone";
+						} else {
+							delete condition.taskState;
+						}
+						this.refreshConditions();
+						this.onRuleChanged();
+					})
+			);
+
+		if (condition.type === "frontmatter") {
+			setting
+				.addText((text) =>
+					text
+						.setPlaceholder("Property")
+						.setValue(condition.frontmatterKey || "")
+						.onChange((value) => {
+							condition.frontmatterKey = value.trim();
+							this.onRuleChanged();
+						})
+				)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("exists", "exists")
+						.addOption("equals", "equals")
+						.addOption("contains", "contains")
+						.addOption("matches", "matches regex")
+						.addOption("before", "is before")
+						.addOption("after", "is after")
+						.setValue(condition.frontmatterOperator || "equals")
+						.onChange((value) => {
+							condition.frontmatterOperator = value as FrontmatterOperator;
+							this.refreshConditions();
+							this.onRuleChanged();
+						})
+				);
+		}
+
+		if (condition.type === "fileAge") {
+			setting.addDropdown((dropdown) =>
+				dropdown
+					.addOption("mtime", "since modified")
+					.addOption("ctime", "since created")
+					.addOption("frontmatter", "since frontmatter date")
+					.addOption("filename", "since date in file name")
+					.addOption("lastOpened", "since last opened")
+					.setValue(condition.ageSource || "mtime")
+					.onChange((value) => {
+						condition.ageSource = value as FileAgeSource;
+						if (condition.ageSource === "frontmatter") {
+							condition.frontmatterKey = "";
+						} else {
+							delete condition.frontmatterKey;
 						}
-					}
-					this.close();
-				})
+						this.refreshConditions();
+						this.onRuleChanged();
+					})
 			);
-	}
-
-	private displayConditions(containerEl: HTMLElement): void {
-		containerEl.empty();
 
-		if (this.rule.conditions.length === 0) {
-			containerEl.createEl("p", {
-				text: "No conditions added yet. Add at least one condition.",
-				cls: "setting-item-description"
-			});
-			return;
+			if (condition.ageSource === "frontmatter") {
+				setting.addText((text) =>
+					text
+						.setPlaceholder("Property")
+						.setValue(condition.frontmatterKey || "")
+						.onChange((value) => {
+							condition.frontmatterKey = value.trim();
+							this.onRuleChanged();
+						})
+				);
+			}
 		}
 
-		for (let i = 0; i < this.rule.conditions.length; i++) {
-			const condition = this.rule.conditions[i];
-			this.displayCondition(containerEl, condition, i);
+		if (condition.type === "tag") {
+			setting.addDropdown((dropdown) =>
+				dropdown
+					.addOption("has", "has any of")
+					.addOption("missing", "has none of")
+					.setValue(condition.tagOperator || "has")
+					.onChange((value) => {
+						condition.tagOperator = value as TagOperator;
+						this.onRuleChanged();
+					})
+			);
 		}
-	}
 
-	private displayCondition(
-		containerEl: HTMLElement,
-		condition: AutoArchiveCondition,
-		index: number
-	): void {
-		const conditionEl = containerEl.createDiv({ cls: "auto-archive-condition" });
+		if (condition.type === "fileSize" || condition.type === "wordCount") {
+			setting.addDropdown((dropdown) =>
+				dropdown
+					.addOption("greaterThan", "more than")
+					.addOption("lessThan", "less than")
+					.setValue(condition.comparison || "greaterThan")
+					.onChange((value) => {
+						condition.comparison = value as NumberComparison;
+						this.onRuleChanged();
+					})
+			);
+		}
 
-		new Setting(conditionEl)
-			.setName(`Condition ${index + 1}`)
-			.addDropdown((dropdown) =>
+		if (condition.type === "taskCompletion") {
+			setting.addDropdown((dropdown) =>
 				dropdown
-					.addOption("fileAge", "File age (days)")
-					.addOption("regexPattern", "File name regex")
-					.setValue(condition.type)
+					.addOption("allDone", "all tasks are done")
+					.addOption("someOpen", "some tasks are open")
+					.addOption("noTasks", "there are no tasks")
+					.setValue(condition.taskState || "allDone")
 					.onChange((value) => {
-						const conditionType = value as "fileAge" | "regexPattern";
-						if (conditionType === "fileAge" || conditionType === "regexPattern") {
-							condition.type = conditionType;
-							condition.value = "";
-							this.displayConditions(containerEl);
-						}
+						condition.taskState = value as TaskCompletionState;
+						this.onRuleChanged();
 					})
-			)
-			.addText((text) =>
+			);
+		}
+
+		const hasValue =
+			condition.type !== "notLinked" &&
+			condition.type !== "taskCompletion" &&
+			(condition.type !== "frontmatter" || condition.frontmatterOperator !== "exists");
+
+		if (hasValue) {
+			setting.addText((text) => {
 				text
-					.setPlaceholder(
-						condition.type === "fileAge"
-							? "Number of days"
-							: "Regular expression"
-					)
+					.setPlaceholder(this.getConditionPlaceholder(condition))
 					.setValue(condition.value)
 					.onChange((value) => {
 						condition.value = value;
+						this.onRuleChanged();
+					});
+
+				if (
+					condition.type === "fileAge" ||
+					condition.type === "fileSize" ||
+					condition.type === "wordCount"
+				) {
+					text.inputEl.type = "number";
+					text.inputEl.min = "0";
+				}
+			});
+		}
+
+		if (condition.type === "fileSize") {
+			setting.addDropdown((dropdown) =>
+				dropdown
+					.addOption("KB", "KB")
+					.addOption("MB", "MB")
+					.addOption("GB", "GB")
+					.setValue(condition.sizeUnit || "MB")
+					.onChange((value) => {
+						condition.sizeUnit = value as FileSizeUnit;
+						this.onRuleChanged();
 					})
-			)
-			.addButton((button) =>
-				button
-					.setButtonText("Remove")
-					.setWarning()
-					.onClick(() => {
-						this.rule.conditions.splice(index, 1);
-						this.displayConditions(containerEl);
+			);
+		}
+
+		if (condition.type === "fileAge") {
+			setting.addDropdown((dropdown) =>
+				dropdown
+					.addOption("hours", "hours")
+					.addOption("days", "days")
+					.addOption("weeks", "weeks")
+					.addOption("months", "months")
+					.setValue(condition.ageUnit || "days")
+					.onChange((value) => {
+						condition.ageUnit = value as FileAgeUnit;
+						this.onRuleChanged();
 					})
 			);
+		}
+
+		this.addConditionNodeButtons(setting, siblings, index);
 	}
 
-	private addCondition(): void {
-		this.rule.conditions.push({
-			type: "fileAge",
-			value: ""
-		});
+	private getConditionPlaceholder(condition: AutoArchiveCondition): string {
+		if (condition.type === "fileAge") {
+			return "Age";
+		} else if (condition.type === "frontmatter") {
+			const operator = condition.frontmatterOperator || "equals";
+			if (operator === "before" || operator === "after") {
+				return "YYYY-MM-DD, today or 30 days ago";
+			}
+			return operator === "matches" ? "Regular expression" : "Value";
+		} else if (condition.type === "tag") {
+			return "#done, #project/closed";
+		} else if (condition.type === "extension") {
+			return "pdf, png";
+		} else if (condition.type === "fileSize") {
+			return "Size";
+		} else if (condition.type === "wordCount") {
+			return "Number of words";
+		}
+		return "Regular expression";
+	}
+
+	private onRuleChanged(): void {
+		this.refreshValidation();
+
+		// Keep the match count live once the user has asked for it
+		if (this.isTesting) {
+			this.requestMatchCount();
+		}
+	}
+
+	private refreshValidation(): void {
+		const errors = this.plugin.getRuleErrors(this.rule);
+
+		if (this.folderMessageEl) {
+			const folderError = this.plugin.getFolderPathError(this.rule);
+			const folderWarning = this.plugin.getFolderPathWarning(this.rule);
+			this.folderMessageEl.setText(folderError ?? folderWarning ?? "");
+			this.folderMessageEl.toggleClass("mod-warning", folderError !== null);
+		}
+
+		for (const [condition, errorEl] of this.conditionErrorEls) {
+			errorEl.setText(this.plugin.getConditionError(condition) ?? "");
+		}
+
+		this.validationEl.setText(
+			errors.length > 0 ? `Fix before saving: ${errors.join("; ")}` : ""
+		);
+		this.saveButton.setDisabled(errors.length > 0);
+	}
+
+	private async refreshMatchCount(): Promise<void> {
+		const requestId = ++this.testRequestId;
+		this.matchCountSetting.setDesc("Testing...");
 
-		const conditionsContainer = this.contentEl.querySelector(
-			".auto-archive-conditions-container"
-		) as HTMLElement;
-		if (conditionsContainer) {
-			this.displayConditions(conditionsContainer);
+		const files = await this.plugin.findAutoArchiveMatches(this.rule);
+
+		// Ignore results from a test that has since been superseded
+		if (requestId !== this.testRequestId) {
+			return;
 		}
+
+		this.matchCountSetting.setDesc(
+			`${files.length} ${files.length === 1 ? "file matches" : "files match"} this rule`
+		);
 	}
 
 	onClose() {
+		this.requestMatchCount.cancel();
 		const { contentEl } = this;
 		contentEl.empty();
 	}
@@ -982,13 +6468,238 @@ class SimpleArchiverSettingsTab extends PluginSettingTab {
 						}
 					})
 			);
+
+		new Setting(containerEl)
+			.setName("Additional archives")
+			.setDesc("Named archive folders that rules and the \"Move to archive…\" command can target")
+			.addButton((button) =>
+				button.setButtonText("Add Archive").onClick(async () => {
+					this.plugin.settings.archiveDestinations.push({
+						id: crypto.randomUUID(),
+						name: "",
+						path: "",
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+		for (const destination of this.plugin.settings.archiveDestinations) {
+			new Setting(containerEl)
+				.setClass("archive-destination")
+				.addText((text) =>
+					text
+						.setPlaceholder("Name")
+						.setValue(destination.name)
+						.onChange(async (value) => {
+							destination.name = value;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Archive folder")
+						.setValue(destination.path)
+						.onChange(async (value) => {
+							if (this.validateArchiveFolderName(value)) {
+								destination.path = value;
+								await this.plugin.saveSettings();
+							} else {
+								text.setValue(destination.path);
+							}
+						})
+				)
+				.addButton((button) =>
+					button
+						.setButtonText("Remove")
+						.setWarning()
+						.onClick(async () => {
+							this.plugin.settings.archiveDestinations =
+								this.plugin.settings.archiveDestinations.filter(
+									(d) => d.id !== destination.id
+								);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Archive path template")
+			.setDesc(
+				"Where archived items are placed. Tokens: {{archiveFolder}}, {{originalPath}}, {{originalFolder}}, " +
+					"{{name}}, {{basename}}, {{YYYY}}, {{MM}}, {{DD}}, {{date:FORMAT}}, {{ctime:FORMAT}}, " +
+					"{{mtime:FORMAT}} and {{frontmatter.key}}. Must include {{originalPath}} or {{name}}."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.archivePathTemplate)
+					.setValue(this.plugin.settings.archivePathTemplate)
+					.onChange(async (value) => {
+						if (this.setArchivePathTemplate(value)) {
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Renaming on conflict")
+			.setDesc("How to name an item kept alongside an existing item with the same name")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("number", "Number suffix, e.g. note (2)")
+					.addOption("timestamp", "Timestamp suffix, e.g. note 20250314-120000")
+					.setValue(this.plugin.settings.conflictRenameStyle)
+					.onChange(async (value) => {
+						this.plugin.settings.conflictRenameStyle = value as "number" | "timestamp";
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Links to archived notes")
+			.setDesc(
+				"What to do with links from active notes to notes being archived. Auto-archive runs leave links alone when set to ask."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("ask", "Show a report and ask")
+					.addOption("leave", "Leave links alone")
+					.addOption("plainText", "Convert to plain text")
+					.addOption("annotate", "Annotate links")
+					.setValue(this.plugin.settings.backlinkAction)
+					.onChange(async (value) => {
+						this.plugin.settings.backlinkAction = value as BacklinkAction | "ask";
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Link annotation")
+			.setDesc("Text appended after links to archived notes when annotating")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.backlinkAnnotation)
+					.setValue(this.plugin.settings.backlinkAnnotation)
+					.onChange(async (value) => {
+						this.plugin.settings.backlinkAnnotation = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Archive attachments")
+			.setDesc(
+				"Also archive the images, PDFs and other files that only the archived notes embed or link to, and bring them back when the notes are unarchived"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.archiveAttachments)
+					.onChange(async (value) => {
+						this.plugin.settings.archiveAttachments = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Stamp archive details into frontmatter")
+			.setDesc(
+				"Record when, why and from where a note was archived in its frontmatter, so archived notes can be queried"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.stampFrontmatter)
+					.onChange(async (value) => {
+						this.plugin.settings.stampFrontmatter = value;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.stampFrontmatter) {
+			const keys = this.plugin.settings.frontmatterKeys;
+			const keySettings: [keyof ArchiveFrontmatterKeys, string][] = [
+				["archivedAt", "Archived at property"],
+				["archivedFrom", "Archived from property"],
+				["archivedByRule", "Archived by rule property"],
+				["reason", "Archive reason property"],
+				["tags", "Archive tags property"],
+			];
+
+			for (const [key, name] of keySettings) {
+				new Setting(containerEl).setName(name).addText((text) =>
+					text
+						.setPlaceholder(DEFAULT_SETTINGS.frontmatterKeys[key])
+						.setValue(keys[key])
+						.onChange(async (value) => {
+							keys[key] = value.trim() || DEFAULT_SETTINGS.frontmatterKeys[key];
+							await this.plugin.saveSettings();
+						})
+				);
+			}
+
+			new Setting(containerEl)
+				.setName("On unarchive")
+				.setDesc(`Whether the archive properties are removed or kept in an "${ARCHIVE_HISTORY_KEY}" list`)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("remove", "Remove archive properties")
+						.addOption("history", "Move to archive history list")
+						.setValue(this.plugin.settings.unarchiveFrontmatter)
+						.onChange(async (value) => {
+							this.plugin.settings.unarchiveFrontmatter = value as "remove" | "history";
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		new Setting(containerEl).setName("Protected files").setHeading();
+
+		new Setting(containerEl)
+			.setName("Never archive property")
+			.setDesc("Notes with this frontmatter property set to \"never\" are never archived")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.protectionProperty)
+					.setValue(this.plugin.settings.protectionProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.protectionProperty = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		displayExclusionSettings(containerEl, this.plugin.settings.exclusions, async () => {
+			await this.plugin.saveSettings();
+		});
+
+		new Setting(containerEl)
+			.setName("Archive history")
+			.setDesc("Review past archive operations and undo them")
+			.addButton((button) =>
+				button.setButtonText("Show history").onClick(() => {
+					this.plugin.openArchiveHistory();
+				})
+			);
 	}
 
 	private displayAutoArchiveSettings(containerEl: HTMLElement): void {
-		// Auto-archive frequency setting with "Auto Archive Now" button
+		// Auto-archive schedule with "Auto Archive Now" button
+		const lastRun = this.plugin.settings.lastAutoArchiveRun;
 		new Setting(containerEl)
-			.setName("Auto-archive frequency")
-			.setDesc("How often to check and process auto-archive rules")
+			.setName("Auto-archive")
+			.setDesc(
+				lastRun
+					? `Last run: ${new Date(lastRun).toLocaleString()}`
+					: "Auto-archive rules have not run yet"
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Preview")
+					.setTooltip("Show the files auto-archive rules would move")
+					.onClick(async () => {
+						await this.plugin.openAutoArchivePreview();
+					})
+			)
 			.addButton((button) =>
 				button
 					.setButtonText("Auto Archive Now")
@@ -996,31 +6707,116 @@ class SimpleArchiverSettingsTab extends PluginSettingTab {
 					.onClick(async () => {
 						button.setDisabled(true);
 						button.setButtonText("Processing...");
-						await this.plugin.processAutoArchiveRules();
-						this.plugin.scheduleAutoArchive(); // Reset the schedule
+						const summary = await this.plugin.processAutoArchiveRules();
 						button.setButtonText("Auto Archive Now");
 						button.setDisabled(false);
-						new Notice("Auto-archive rules processed");
+						new Notice(
+							summary
+								? `Auto-archive rules processed: ${this.plugin.getRunSummaryText(summary)}`
+								: "Auto-archive is already running, try again when it has finished"
+						);
+						this.display();
+					})
+			);
+
+		displayScheduleSetting(
+			containerEl,
+			"Schedule",
+			"When auto-archive rules run. Runs missed while Obsidian was closed happen on the next start.",
+			this.plugin.settings.autoArchiveSchedule,
+			async () => {
+				await this.plugin.saveSettings();
+			},
+			() => this.display()
+		);
+
+		new Setting(containerEl)
+			.setName("When the destination exists")
+			.setDesc(
+				"What scheduled auto-archive runs do when an item with the same name is already archived. " +
+					"Skipped and queued items are listed under Needs attention."
+			)
+			.addButton((button) =>
+				button
+					.setButtonText(`Needs attention (${this.plugin.settings.needsAttention.length})`)
+					.onClick(() => {
+						this.plugin.openNeedsAttention();
 					})
 			)
 			.addDropdown((dropdown) =>
 				dropdown
-					.addOption("5", "Every 5 minutes")
-					.addOption("15", "Every 15 minutes")
-					.addOption("30", "Every 30 minutes")
-					.addOption("60", "Every 60 minutes")
-					.addOption("360", "Every 6 hours")
-					.addOption("720", "Every 12 hours")
-					.addOption("1440", "Every 24 hours")
-					.addOption("2880", "Every 48 hours")
-					.setValue(this.plugin.settings.autoArchiveFrequency.toString())
+					.addOption("skip", "Skip")
+					.addOption("rename", "Keep both")
+					.addOption("replaceOlder", "Replace if older")
+					.addOption("queue", "Queue for review")
+					.setValue(this.plugin.settings.autoArchiveConflictPolicy)
+					.onChange(async (value) => {
+						this.plugin.settings.autoArchiveConflictPolicy =
+							value as AutoArchiveConflictPolicy;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Run reports")
+			.setDesc("Append a report of each auto-archive run that matched files to a note in the vault")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("off", "Don't write reports")
+					.addOption("note", "Append to a note")
+					.addOption("daily", "One note per day")
+					.setValue(this.plugin.settings.runReport)
 					.onChange(async (value) => {
-						this.plugin.settings.autoArchiveFrequency = parseInt(value);
+						this.plugin.settings.runReport = value as "off" | "note" | "daily";
 						await this.plugin.saveSettings();
-						this.plugin.scheduleAutoArchive();
+						this.display();
 					})
 			);
 
+		if (this.plugin.settings.runReport === "note") {
+			new Setting(containerEl)
+				.setName("Report note")
+				.setDesc("Path of the note reports are appended to")
+				.addText((text) =>
+					text
+						.setPlaceholder(DEFAULT_SETTINGS.runReportPath)
+						.setValue(this.plugin.settings.runReportPath)
+						.onChange(async (value) => {
+							this.plugin.settings.runReportPath =
+								value.trim() || DEFAULT_SETTINGS.runReportPath;
+							await this.plugin.saveSettings();
+						})
+				);
+		} else if (this.plugin.settings.runReport === "daily") {
+			new Setting(containerEl)
+				.setName("Report folder")
+				.setDesc("Folder of the daily report notes, named YYYY-MM-DD")
+				.addText((text) =>
+					text
+						.setPlaceholder(DEFAULT_SETTINGS.runReportFolder)
+						.setValue(this.plugin.settings.runReportFolder)
+						.onChange(async (value) => {
+							this.plugin.settings.runReportFolder =
+								value.trim() || DEFAULT_SETTINGS.runReportFolder;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Share rules")
+			.setDesc("Export rules to use in another vault, or import rules exported elsewhere")
+			.addButton((button) =>
+				button.setButtonText("Export…").onClick(() => {
+					new ExportRulesModal(this.app, this.plugin).open();
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText("Import…").onClick(() => {
+					new ImportRulesModal(this.app, this.plugin, () => this.display()).open();
+				})
+			);
+
 		// Add new rule button
 		new Setting(containerEl)
 			.setName("Auto-archive rules")
@@ -1055,7 +6851,11 @@ class SimpleArchiverSettingsTab extends PluginSettingTab {
 
 		// Rule header with enable/disable toggle
 		new Setting(ruleContainer)
-			.setName(`Folder: ${rule.folderPath || "(not set)"}`)
+			.setName(
+				rule.mode === "orphanedAttachments"
+					? this.plugin.getRuleName(rule)
+					: `Folder: ${this.plugin.getRuleName(rule)}`
+			)
 			.setClass("auto-archive-rule-header")
 			.addToggle((toggle) =>
 				toggle.setValue(rule.enabled).onChange(async (value) => {
@@ -1085,25 +6885,77 @@ class SimpleArchiverSettingsTab extends PluginSettingTab {
 					})
 			);
 
+		this.displayRuleHealth(ruleContainer, rule);
+
 		// Display conditions
 		const conditionsEl = ruleContainer.createDiv({ cls: "auto-archive-rule-conditions" });
-		if (rule.conditions.length === 0) {
+		if (rule.conditionGroup.conditions.length === 0) {
 			conditionsEl.createEl("span", {
 				text: "No conditions set",
 				cls: "setting-item-description"
 			});
 		} else {
-			// Show logic operator if multiple conditions
-			if (rule.conditions.length > 1) {
-				conditionsEl.createEl("div", {
-					text: `Logic: ${rule.logicOperator || "AND"}`,
-					cls: "auto-archive-rule-logic"
-				});
+			this.displayConditionGroupSummary(conditionsEl, rule.conditionGroup);
+		}
+	}
+
+	/**
+	 * Shows whether the rule is valid and how its last run went.
+	 */
+	private displayRuleHealth(containerEl: HTMLElement, rule: AutoArchiveRule): void {
+		const healthEl = containerEl.createDiv({ cls: "auto-archive-rule-health" });
+
+		const errors = this.plugin.getRuleErrors(rule);
+		const result = rule.lastResult;
+		let status: "ok" | "warning" | "error";
+		let text: string;
+
+		if (errors.length > 0) {
+			status = "error";
+			text = `Invalid: ${errors[0]}`;
+		} else if (!result) {
+			status = "warning";
+			text = "Not run yet";
+		} else {
+			status = result.error ? "error" : result.skipped > 0 ? "warning" : "ok";
+			text =
+				`Last run ${moment(result.timestamp).format("YYYY-MM-DD HH:mm")}: ` +
+				`${result.matched} matched, ${result.archived} archived`;
+			if (result.skipped > 0) {
+				text += `, ${result.skipped} skipped`;
+			}
+			if (result.error) {
+				text += `. Last error: ${result.error}`;
 			}
-			for (const condition of rule.conditions) {
-				const conditionText = this.getConditionText(condition);
-				conditionsEl.createEl("div", {
-					text: `• ${conditionText}`,
+		}
+
+		healthEl.addClass(`is-${status}`);
+		healthEl.setText(text);
+	}
+
+	private displayConditionGroupSummary(
+		containerEl: HTMLElement,
+		group: AutoArchiveConditionGroup
+	): void {
+		// Show logic operator if multiple conditions
+		if (group.conditions.length > 1 || group.negate) {
+			const logic = group.logicOperator === "OR" ? "any of" : "all of";
+			containerEl.createEl("div", {
+				text: group.negate ? `Not ${logic}:` : `${logic.charAt(0).toUpperCase()}${logic.slice(1)}:`,
+				cls: "auto-archive-rule-logic"
+			});
+		}
+
+		for (const node of group.conditions) {
+			if (node.type === "group") {
+				this.displayConditionGroupSummary(
+					containerEl.createDiv({ cls: "auto-archive-rule-group" }),
+					node
+				);
+			} else {
+				const conditionText = this.getConditionText(node);
+				containerEl.createEl("div", {
+					text: `• ${node.negate ? "NOT " : ""}${conditionText}`,
 					cls: "auto-archive-rule-condition"
 				});
 			}
@@ -1112,9 +6964,62 @@ class SimpleArchiverSettingsTab extends PluginSettingTab {
 
 	private getConditionText(condition: AutoArchiveCondition): string {
 		if (condition.type === "fileAge") {
-			return `File age ≥ ${condition.value} days`;
+			const unit = condition.ageUnit || "days";
+			switch (condition.ageSource || "mtime") {
+				case "mtime":
+					return `Modified ≥ ${condition.value} ${unit} ago`;
+				case "ctime":
+					return `Created ≥ ${condition.value} ${unit} ago`;
+				case "frontmatter":
+					return `Frontmatter "${condition.frontmatterKey || "(not set)"}" date ≥ ${condition.value} ${unit} ago`;
+				case "filename":
+					return `Date in file name ≥ ${condition.value} ${unit} ago`;
+				case "lastOpened":
+					return `Last opened ≥ ${condition.value} ${unit} ago`;
+			}
 		} else if (condition.type === "regexPattern") {
 			return `File name matches: ${condition.value}`;
+		} else if (condition.type === "frontmatter") {
+			const key = condition.frontmatterKey || "(not set)";
+			switch (condition.frontmatterOperator || "equals") {
+				case "exists":
+					return `Frontmatter "${key}" exists`;
+				case "equals":
+					return `Frontmatter "${key}" equals "${condition.value}"`;
+				case "contains":
+					return `Frontmatter "${key}" contains "${condition.value}"`;
+				case "matches":
+					return `Frontmatter "${key}" matches: ${condition.value}`;
+				case "before":
+					return `Frontmatter "${key}" is before ${condition.value}`;
+				case "after":
+					return `Frontmatter "${key}" is after ${condition.value}`;
+			}
+		} else if (condition.type === "tag") {
+			return condition.tagOperator === "missing"
+				? `Has none of tags: ${condition.value}`
+				: `Has any of tags: ${condition.value}`;
+		} else if (condition.type === "notLinked") {
+			return "Not linked from active notes";
+		} else if (condition.type === "extension") {
+			return `File extension is one of: ${condition.value}`;
+		} else if (condition.type === "fileSize") {
+			const comparison = condition.comparison === "lessThan" ? "<" : ">";
+			return `File size ${comparison} ${condition.value} ${condition.sizeUnit || "MB"}`;
+		} else if (condition.type === "wordCount") {
+			const comparison = condition.comparison === "lessThan" ? "<" : ">";
+			return `Word count ${comparison} ${condition.value}`;
+		} else if (condition.type === "contentRegex") {
+			return `Note content matches: ${condition.value}`;
+		} else if (condition.type === "taskCompletion") {
+			switch (condition.taskState || "allDone") {
+				case "allDone":
+					return "All tasks are done";
+				case "someOpen":
+					return "Some tasks are open";
+				case "noTasks":
+					return "Has no tasks";
+			}
 		}
 		return "Unknown condition";
 	}
@@ -1126,8 +7031,7 @@ class SimpleArchiverSettingsTab extends PluginSettingTab {
 			folderPath: "",
 			useFolderRegex: false,
 			applyRecursively: false,
-			conditions: [],
-			logicOperator: "AND"
+			conditionGroup: { type: "group", logicOperator: "AND", conditions: [] },
 		};
 
 		this.plugin.settings.autoArchiveRules.push(newRule);
@@ -1146,6 +7050,16 @@ class SimpleArchiverSettingsTab extends PluginSettingTab {
 		return !/^\.|[:/\\]\.|:/.test(value);
 	}
 
+	private setArchivePathTemplate(value: string): boolean {
+		// Without the item name every archived item would land on the same path
+		if (!/\{\{\s*(originalPath|name)\s*\}\}/.test(value)) {
+			return false;
+		}
+
+		this.plugin.settings.archivePathTemplate = value.trim();
+		return true;
+	}
+
 	private setArchiveFolder(value: string): boolean {
 		if (!this.validateArchiveFolderName(value)) {
 			return false;